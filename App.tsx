@@ -5,20 +5,34 @@ import { SimulationDashboard } from './components/SimulationDashboard';
 import { DataflowDiagram } from './components/DataflowDiagram';
 import { PerformanceComparison } from './components/PerformanceComparison';
 import { RealSystemAnalysis } from './components/RealSystemAnalysis';
+import { CacheHierarchyConfig, DEFAULT_CACHE_HIERARCHY } from './components/simulation/CacheSimulator';
 
 export type PageType = 'landing' | 'architecture' | 'simulation' | 'dataflow' | 'performance' | 'real-analysis';
 
 export default function App() {
   const [currentPage, setCurrentPage] = useState<PageType>('landing');
+  const [cacheConfig, setCacheConfig] = useState<CacheHierarchyConfig>(DEFAULT_CACHE_HIERARCHY);
 
   const renderPage = () => {
     switch (currentPage) {
       case 'landing':
         return <LandingScreen onNavigate={setCurrentPage} />;
       case 'architecture':
-        return <SystemArchitecture onNavigate={setCurrentPage} />;
+        return (
+          <SystemArchitecture
+            onNavigate={setCurrentPage}
+            cacheConfig={cacheConfig}
+            onCacheConfigChange={setCacheConfig}
+          />
+        );
       case 'simulation':
-        return <SimulationDashboard onNavigate={setCurrentPage} />;
+        return (
+          <SimulationDashboard
+            onNavigate={setCurrentPage}
+            cacheConfig={cacheConfig}
+            onCacheConfigChange={setCacheConfig}
+          />
+        );
       case 'dataflow':
         return <DataflowDiagram onNavigate={setCurrentPage} />;
       case 'performance':
@@ -0,0 +1,293 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
+import { Layers, Plus, Trash2 } from 'lucide-react';
+import { CacheHierarchyConfig, CacheLevelConfig, CACHE_HIERARCHY_PRESETS, InclusionPolicy, WritePolicy } from './simulation/CacheSimulator';
+import { REPLACEMENT_POLICIES, ReplacementPolicyType } from './simulation/ReplacementPolicies';
+
+interface CacheHierarchyPanelProps {
+  config: CacheHierarchyConfig;
+  onChange: (config: CacheHierarchyConfig) => void;
+  disabled?: boolean;
+}
+
+export function CacheHierarchyPanel({ config, onChange, disabled = false }: CacheHierarchyPanelProps) {
+  const toCount = (value: string, fallback: number) => {
+    const parsed = parseInt(value, 10);
+    return Number.isNaN(parsed) ? fallback : Math.max(0, parsed);
+  };
+
+  const updateLevel = (index: number, changes: Partial<CacheLevelConfig>) => {
+    onChange({
+      ...config,
+      levels: config.levels.map((level, i) => (i === index ? { ...level, ...changes } : level))
+    });
+  };
+
+  const addLevel = () => {
+    const last = config.levels[config.levels.length - 1];
+    onChange({
+      ...config,
+      levels: [
+        ...config.levels,
+        {
+          name: `L${config.levels.length + 1}`,
+          capacity: last ? last.capacity * 4 : 32,
+          latency: last ? { min: last.latency.max, max: last.latency.max * 2 } : { min: 1, max: 2 },
+          policy: 'LRU'
+        }
+      ]
+    });
+  };
+
+  const setWays = (index: number, value: string) => {
+    if (value === 'full') {
+      updateLevel(index, { associativity: undefined });
+      return;
+    }
+    updateLevel(index, { associativity: { ways: Number(value) } });
+  };
+
+  // Way counts that divide the level's capacity evenly
+  const wayOptions = (capacity: number) => [1, 2, 4, 8, 16].filter(ways => ways < capacity && capacity % ways === 0);
+
+  const removeLevel = (index: number) => {
+    if (config.levels.length <= 1) return;
+    onChange({ ...config, levels: config.levels.filter((_, i) => i !== index) });
+  };
+
+  const activePreset = Object.entries(CACHE_HIERARCHY_PRESETS)
+    .find(([, preset]) => JSON.stringify(preset) === JSON.stringify(config))?.[0];
+
+  return (
+    <Card className="p-6 rounded-2xl shadow-lg border-0">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg flex items-center gap-2">
+          <Layers className="w-5 h-5" />
+          Cache Hierarchy
+        </h3>
+        <Select
+          value={activePreset ?? 'custom'}
+          onValueChange={(value) => CACHE_HIERARCHY_PRESETS[value] && onChange(CACHE_HIERARCHY_PRESETS[value])}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-[200px] rounded-xl">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.keys(CACHE_HIERARCHY_PRESETS).map(name => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+            <SelectItem value="custom" disabled>Custom</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-12 gap-2 text-xs text-gray-500">
+          <span className="col-span-3">Level</span>
+          <span className="col-span-2">Capacity</span>
+          <span className="col-span-2">Min cycles</span>
+          <span className="col-span-2">Max cycles</span>
+          <span className="col-span-2">Policy</span>
+        </div>
+
+        {config.levels.map((level, index) => (
+          <div key={index} className="space-y-2">
+            <div className="grid grid-cols-12 gap-2 items-center">
+              <Input
+                className="col-span-3 rounded-xl"
+                value={level.name}
+                disabled={disabled}
+                onChange={(e) => updateLevel(index, { name: e.target.value })}
+              />
+              <Input
+                className="col-span-2 rounded-xl"
+                type="number"
+                min={1}
+                value={level.capacity}
+                disabled={disabled}
+                onChange={(e) => {
+                  const capacity = Math.max(1, toCount(e.target.value, level.capacity));
+                  // Fall back to fully associative if the ways no longer divide the capacity
+                  const associativity = level.associativity && capacity % level.associativity.ways === 0
+                    ? level.associativity
+                    : undefined;
+                  updateLevel(index, { capacity, associativity });
+                }}
+              />
+              <Input
+                className="col-span-2 rounded-xl"
+                type="number"
+                min={0}
+                value={level.latency.min}
+                disabled={disabled}
+                onChange={(e) => {
+                  const min = toCount(e.target.value, level.latency.min);
+                  updateLevel(index, { latency: { min, max: Math.max(min, level.latency.max) } });
+                }}
+              />
+              <Input
+                className="col-span-2 rounded-xl"
+                type="number"
+                min={level.latency.min}
+                value={level.latency.max}
+                disabled={disabled}
+                onChange={(e) => {
+                  const max = toCount(e.target.value, level.latency.max);
+                  updateLevel(index, { latency: { min: Math.min(level.latency.min, max), max } });
+                }}
+              />
+              <div className="col-span-2">
+                <Select
+                  value={level.policy}
+                  onValueChange={(value) => updateLevel(index, { policy: value as ReplacementPolicyType })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="w-full rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPLACEMENT_POLICIES.map(policy => (
+                      <SelectItem key={policy} value={policy}>{policy}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="ghost"
+                className="col-span-1 rounded-xl"
+                onClick={() => removeLevel(index)}
+                disabled={disabled || config.levels.length <= 1}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-12 gap-2 items-center">
+              <span className="col-span-3 text-xs text-gray-500 text-right">Associativity</span>
+              <div className="col-span-2">
+                <Select
+                  value={level.associativity ? String(level.associativity.ways) : 'full'}
+                  onValueChange={(value) => setWays(index, value)}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="w-full rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="full">Fully assoc.</SelectItem>
+                    {wayOptions(level.capacity).map(ways => (
+                      <SelectItem key={ways} value={String(ways)}>
+                        {ways === 1 ? 'Direct-mapped' : `${ways}-way`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {level.associativity && (
+                <span className="col-span-6 text-xs text-gray-500">
+                  {level.capacity / level.associativity.ways} sets, indexed by file offset
+                </span>
+              )}
+            </div>
+          </div>
+        ))}
+
+        <div className="grid grid-cols-12 gap-2 items-center pt-2 border-t border-gray-100">
+          <Input
+            className="col-span-3 rounded-xl"
+            value={config.backingStore.name}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...config, backingStore: { ...config.backingStore, name: e.target.value } })}
+          />
+          <span className="col-span-2 text-xs text-gray-500">Backing store</span>
+          <Input
+            className="col-span-2 rounded-xl"
+            type="number"
+            min={0}
+            value={config.backingStore.latency.min}
+            disabled={disabled}
+            onChange={(e) => {
+              const min = toCount(e.target.value, config.backingStore.latency.min);
+              onChange({
+                ...config,
+                backingStore: { ...config.backingStore, latency: { min, max: Math.max(min, config.backingStore.latency.max) } }
+              });
+            }}
+          />
+          <Input
+            className="col-span-2 rounded-xl"
+            type="number"
+            min={config.backingStore.latency.min}
+            value={config.backingStore.latency.max}
+            disabled={disabled}
+            onChange={(e) => {
+              const max = toCount(e.target.value, config.backingStore.latency.max);
+              onChange({
+                ...config,
+                backingStore: { ...config.backingStore, latency: { min: Math.min(config.backingStore.latency.min, max), max } }
+              });
+            }}
+          />
+        </div>
+
+        <div className="flex items-center justify-between pt-2">
+          <Button
+            variant="outline"
+            className="rounded-xl"
+            onClick={addLevel}
+            disabled={disabled}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Level
+          </Button>
+
+          <div className="flex items-center gap-4">
+            <Select
+              value={config.inclusionPolicy}
+              onValueChange={(value) => onChange({ ...config, inclusionPolicy: value as InclusionPolicy })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-[150px] rounded-xl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="inclusive">Inclusive</SelectItem>
+                <SelectItem value="exclusive">Exclusive</SelectItem>
+                <SelectItem value="nine">NINE</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={config.writePolicy}
+              onValueChange={(value) => onChange({ ...config, writePolicy: value as WritePolicy })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-[150px] rounded-xl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="write-through">Write-through</SelectItem>
+                <SelectItem value="write-back">Write-back</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="write-allocate"
+                checked={config.writeAllocate}
+                onCheckedChange={(checked) => onChange({ ...config, writeAllocate: checked })}
+                disabled={disabled}
+              />
+              <Label htmlFor="write-allocate" className="cursor-pointer text-sm">
+                Write-allocate
+              </Label>
+            </div>
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+}
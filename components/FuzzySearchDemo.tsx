@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Search, Shuffle } from 'lucide-react';
+import { FuzzyMatch } from './simulation/DataStructures';
+
+interface FuzzySearchDemoProps {
+  onSearch: (path: string, maxDistance: number) => Record<'Trie' | 'BST' | 'Hash', any> | null;
+  onRandomTypo: () => string;
+  disabled?: boolean;
+}
+
+export function FuzzySearchDemo({ onSearch, onRandomTypo, disabled = false }: FuzzySearchDemoProps) {
+  const [query, setQuery] = useState('');
+  const [maxDistance, setMaxDistance] = useState(2);
+  const [results, setResults] = useState<Record<'Trie' | 'BST' | 'Hash', any> | null>(null);
+
+  const search = (path: string = query) => {
+    if (!path) return;
+    setResults(onSearch(path, maxDistance));
+  };
+
+  const randomTypo = () => {
+    const typo = onRandomTypo();
+    setQuery(typo);
+    search(typo);
+  };
+
+  const suggestions: FuzzyMatch[] = results ? results.Trie.results.slice(0, 5) : [];
+
+  const comparison = results ? [
+    { structure: 'Trie', method: 'Pruned DP walk', work: `${results.Trie.nodeTraversals} nodes`, ...results.Trie },
+    { structure: 'BST', method: 'Brute force', work: `${results.BST.comparisons} nodes`, ...results.BST },
+    { structure: 'Hash', method: 'Brute force', work: `${results.Hash.scanned} entries`, ...results.Hash }
+  ] : [];
+
+  return (
+    <Card className="p-6 rounded-2xl shadow-lg border-0">
+      <h3 className="text-lg mb-4 flex items-center gap-2">
+        <Search className="w-5 h-5" />
+        Did You Mean?
+      </h3>
+
+      <div className="flex items-center gap-2 mb-4">
+        <Input
+          className="rounded-xl"
+          placeholder="/Documents/report_42.txt"
+          value={query}
+          disabled={disabled}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && search()}
+        />
+        <Select value={String(maxDistance)} onValueChange={(value) => setMaxDistance(Number(value))} disabled={disabled}>
+          <SelectTrigger className="w-[130px] rounded-xl">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="1">Distance 1</SelectItem>
+            <SelectItem value="2">Distance 2</SelectItem>
+            <SelectItem value="3">Distance 3</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button className="rounded-xl" onClick={() => search()} disabled={disabled || !query}>
+          Search
+        </Button>
+        <Button variant="outline" className="rounded-xl" onClick={randomTypo} disabled={disabled}>
+          <Shuffle className="w-4 h-4 mr-2" />
+          Random Typo
+        </Button>
+      </div>
+
+      {results && (
+        <>
+          <div className="space-y-1 mb-4">
+            {suggestions.length === 0 ? (
+              <p className="text-sm text-gray-500">No paths within {maxDistance} edits.</p>
+            ) : (
+              suggestions.map(match => (
+                <div key={match.key} className="flex items-center justify-between text-sm">
+                  <span className="font-mono">{match.key}</span>
+                  <Badge variant="outline">{match.distance} {match.distance === 1 ? 'edit' : 'edits'}</Badge>
+                </div>
+              ))
+            )}
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Structure</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead className="text-center">Visited</TableHead>
+                <TableHead className="text-center">DP Cells</TableHead>
+                <TableHead className="text-center">Latency</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {comparison.map(row => (
+                <TableRow key={row.structure}>
+                  <TableCell className="font-medium">{row.structure}</TableCell>
+                  <TableCell>{row.method}</TableCell>
+                  <TableCell className="text-center">{row.work}</TableCell>
+                  <TableCell className="text-center">{row.dpCells.toLocaleString()}</TableCell>
+                  <TableCell className="text-center">{Math.round(row.latency * 100) / 100}ms</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -9,6 +9,7 @@ import { ArrowLeft, Download, TrendingUp, Clock, Target, Zap } from 'lucide-reac
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, LineChart, Line, Tooltip, Legend } from 'recharts';
 import { PerformanceTestRunner } from './simulation/PerformanceTestRunner';
 import { SimulationResult } from './simulation/FileAccessSimulator';
+import { getStructureDefinitions } from './simulation/StructureRegistry';
 
 interface PerformanceComparisonProps {
   onNavigate: (page: PageType) => void;
@@ -31,81 +32,48 @@ export function PerformanceComparison({ onNavigate }: PerformanceComparisonProps
     const avgLatency = results.reduce((sum, r) => sum + r.avgLatency, 0) / results.length;
     const avgThroughput = results.reduce((sum, r) => sum + r.throughput, 0) / results.length;
     const maxLatency = Math.max(...results.map(r => r.maxLatency));
+    const avgMemory = results.reduce((sum, r) => sum + r.estimatedMemory, 0) / results.length;
     
     return {
       hitRate: avgHitRate,
       missRate: 100 - avgHitRate,
       avgLatency,
       maxLatency,
-      throughput: avgThroughput
+      throughput: avgThroughput,
+      memory: avgMemory
     };
   };
 
-  const cacheHitData = [
-    { name: 'BST', value: getAverageByStructure('BST')?.hitRate || 0, color: '#22c55e' },
-    { name: 'Hash Table', value: getAverageByStructure('Hash')?.hitRate || 0, color: '#3b82f6' },
-    { name: 'Trie', value: getAverageByStructure('Trie')?.hitRate || 0, color: '#f97316' }
-  ];
+  const cacheHitData = getStructureDefinitions().map(definition => ({
+    name: definition.id,
+    value: getAverageByStructure(definition.id)?.hitRate || 0,
+    color: definition.color
+  }));
 
-  const workloadLatencyData = [
-    { 
-      workload: 'Small', 
-      BST: benchmarkResults.find(r => r.structure === 'BST' && r.operationsPerformed === 1000)?.avgLatency || 0,
-      Hash: benchmarkResults.find(r => r.structure === 'Hash' && r.operationsPerformed === 1000)?.avgLatency || 0,
-      Trie: benchmarkResults.find(r => r.structure === 'Trie' && r.operationsPerformed === 1000)?.avgLatency || 0
-    },
-    { 
-      workload: 'Medium', 
-      BST: benchmarkResults.find(r => r.structure === 'BST' && r.operationsPerformed === 5000)?.avgLatency || 0,
-      Hash: benchmarkResults.find(r => r.structure === 'Hash' && r.operationsPerformed === 5000)?.avgLatency || 0,
-      Trie: benchmarkResults.find(r => r.structure === 'Trie' && r.operationsPerformed === 5000)?.avgLatency || 0
-    },
-    { 
-      workload: 'Large', 
-      BST: benchmarkResults.find(r => r.structure === 'BST' && r.operationsPerformed === 10000)?.avgLatency || 0,
-      Hash: benchmarkResults.find(r => r.structure === 'Hash' && r.operationsPerformed === 10000)?.avgLatency || 0,
-      Trie: benchmarkResults.find(r => r.structure === 'Trie' && r.operationsPerformed === 10000)?.avgLatency || 0
-    }
-  ];
+  const workloadOperations = { Small: 1000, Medium: 5000, Large: 10000 };
+  const workloadLatencyData = Object.entries(workloadOperations).map(([workload, operations]) => ({
+    workload,
+    ...Object.fromEntries(getStructureDefinitions().map(definition => [
+      definition.id,
+      benchmarkResults.find(r => r.structure === definition.id && r.operationsPerformed === operations)?.avgLatency || 0
+    ]))
+  }));
 
-  const detailedMetrics = [
-    {
-      structure: 'Binary Search Tree',
-      abbreviation: 'BST',
-      hitRate: Math.round((getAverageByStructure('BST')?.hitRate || 0) * 10) / 10,
-      missRate: Math.round((getAverageByStructure('BST')?.missRate || 0) * 10) / 10,
-      avgLatency: Math.round((getAverageByStructure('BST')?.avgLatency || 0) * 100) / 100,
-      maxLatency: Math.round((getAverageByStructure('BST')?.maxLatency || 0) * 100) / 100,
-      throughput: Math.round(getAverageByStructure('BST')?.throughput || 0),
-      memoryUsage: 45,
-      complexity: 'O(log n)',
-      color: '#22c55e'
-    },
-    {
-      structure: 'Hash Table',
-      abbreviation: 'Hash',
-      hitRate: Math.round((getAverageByStructure('Hash')?.hitRate || 0) * 10) / 10,
-      missRate: Math.round((getAverageByStructure('Hash')?.missRate || 0) * 10) / 10,
-      avgLatency: Math.round((getAverageByStructure('Hash')?.avgLatency || 0) * 100) / 100,
-      maxLatency: Math.round((getAverageByStructure('Hash')?.maxLatency || 0) * 100) / 100,
-      throughput: Math.round(getAverageByStructure('Hash')?.throughput || 0),
-      memoryUsage: 52,
-      complexity: 'O(1) avg',
-      color: '#3b82f6'
-    },
-    {
-      structure: 'Trie (Prefix Tree)',
-      abbreviation: 'Trie',
-      hitRate: Math.round((getAverageByStructure('Trie')?.hitRate || 0) * 10) / 10,
-      missRate: Math.round((getAverageByStructure('Trie')?.missRate || 0) * 10) / 10,
-      avgLatency: Math.round((getAverageByStructure('Trie')?.avgLatency || 0) * 100) / 100,
-      maxLatency: Math.round((getAverageByStructure('Trie')?.maxLatency || 0) * 100) / 100,
-      throughput: Math.round(getAverageByStructure('Trie')?.throughput || 0),
-      memoryUsage: 68,
-      complexity: 'O(m)',
-      color: '#f97316'
-    }
-  ];
+  const detailedMetrics = getStructureDefinitions().map(definition => {
+    const average = getAverageByStructure(definition.id);
+    return {
+      structure: definition.name,
+      abbreviation: definition.id,
+      hitRate: Math.round((average?.hitRate || 0) * 10) / 10,
+      missRate: Math.round((average?.missRate || 0) * 10) / 10,
+      avgLatency: Math.round((average?.avgLatency || 0) * 100) / 100,
+      maxLatency: Math.round((average?.maxLatency || 0) * 100) / 100,
+      throughput: Math.round(average?.throughput || 0),
+      memoryKB: Math.round((average?.memory || 0) / 1024),
+      complexity: definition.complexity,
+      color: definition.color
+    };
+  });
 
   // Find best performers
   const bestHitRate = Math.max(...detailedMetrics.map(m => m.hitRate));
@@ -119,14 +87,10 @@ export function PerformanceComparison({ onNavigate }: PerformanceComparisonProps
     return detailedMetrics.find(m => m[metric] === (metric === 'hitRate' ? bestHitRate : bestThroughput));
   };
 
-  const timeSeriesData = [
-    { time: '0s', BST: 0, Hash: 0, Trie: 0 },
-    { time: '10s', BST: 0, Hash: 0, Trie: 0 },
-    { time: '20s', BST: 0, Hash: 0, Trie: 0 },
-    { time: '30s', BST: 0, Hash: 0, Trie: 0 },
-    { time: '40s', BST: 0, Hash: 0, Trie: 0 },
-    { time: '50s', BST: 0, Hash: 0, Trie: 0 }
-  ];
+  const timeSeriesData = ['0s', '10s', '20s', '30s', '40s', '50s'].map(time => ({
+    time,
+    ...Object.fromEntries(getStructureDefinitions().map(definition => [definition.id, 0]))
+  }));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50 p-8">
@@ -275,9 +239,9 @@ export function PerformanceComparison({ onNavigate }: PerformanceComparisonProps
                   <YAxis label={{ value: 'Latency (ms)', angle: -90, position: 'insideLeft' }} />
                   <Tooltip />
                   <Legend />
-                  <Line type="monotone" dataKey="BST" stroke="#22c55e" strokeWidth={3} name="BST" />
-                  <Line type="monotone" dataKey="Hash" stroke="#3b82f6" strokeWidth={3} name="Hash Table" />
-                  <Line type="monotone" dataKey="Trie" stroke="#f97316" strokeWidth={3} name="Trie" />
+                  {getStructureDefinitions().map(definition => (
+                    <Line key={definition.id} type="monotone" dataKey={definition.id} stroke={definition.color} strokeWidth={3} name={definition.name} />
+                  ))}
                 </LineChart>
               </ResponsiveContainer>
               
@@ -308,9 +272,9 @@ export function PerformanceComparison({ onNavigate }: PerformanceComparisonProps
                   <YAxis label={{ value: 'Hit Rate (%)', angle: -90, position: 'insideLeft' }} />
                   <Tooltip />
                   <Legend />
-                  <Line type="monotone" dataKey="BST" stroke="#22c55e" strokeWidth={2} name="BST" />
-                  <Line type="monotone" dataKey="Hash" stroke="#3b82f6" strokeWidth={2} name="Hash Table" />
-                  <Line type="monotone" dataKey="Trie" stroke="#f97316" strokeWidth={2} name="Trie" />
+                  {getStructureDefinitions().map(definition => (
+                    <Line key={definition.id} type="monotone" dataKey={definition.id} stroke={definition.color} strokeWidth={2} name={definition.name} />
+                  ))}
                 </LineChart>
               </ResponsiveContainer>
               <p className="text-gray-600 mt-4 text-center">
@@ -332,7 +296,7 @@ export function PerformanceComparison({ onNavigate }: PerformanceComparisonProps
                       <TableHead className="text-center">Avg Latency</TableHead>
                       <TableHead className="text-center">Max Latency</TableHead>
                       <TableHead className="text-center">Throughput</TableHead>
-                      <TableHead className="text-center">Memory Usage</TableHead>
+                      <TableHead className="text-center">Memory</TableHead>
                       <TableHead className="text-center">Complexity</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -357,7 +321,7 @@ export function PerformanceComparison({ onNavigate }: PerformanceComparisonProps
                         <TableCell className="text-center">{metric.avgLatency}ms</TableCell>
                         <TableCell className="text-center">{metric.maxLatency}ms</TableCell>
                         <TableCell className="text-center">{metric.throughput}/s</TableCell>
-                        <TableCell className="text-center">{metric.memoryUsage}MB</TableCell>
+                        <TableCell className="text-center">{metric.memoryKB.toLocaleString()} KB</TableCell>
                         <TableCell className="text-center">
                           <code className="bg-gray-100 px-2 py-1 rounded text-sm">
                             {metric.complexity}
@@ -9,6 +9,7 @@ import { PageType } from '../App';
 import { ArrowLeft, Monitor, Cpu, HardDrive, Wifi, AlertCircle, CheckCircle, Play, Square } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, LineChart, Line, Tooltip, Legend } from 'recharts';
 import { RealSystemSimulator, RealSystemResult } from './simulation/RealSystemSimulator';
+import { getStructureDefinition } from './simulation/StructureRegistry';
 
 interface RealSystemAnalysisProps {
   onNavigate: (page: PageType) => void;
@@ -388,24 +389,18 @@ export function RealSystemAnalysis({ onNavigate }: RealSystemAnalysisProps) {
                     <Card key={result.structure} className="p-6 rounded-2xl shadow-lg border-0">
                       <div className="flex items-center justify-between mb-4">
                         <h3 className="text-lg flex items-center gap-2">
-                          <div className="w-4 h-4 rounded-full" style={{ 
-                            backgroundColor: result.structure === 'BST' ? '#22c55e' : 
-                                           result.structure === 'Hash' ? '#3b82f6' : '#f97316' 
-                          }}></div>
-                          {result.structure === 'BST' ? 'Binary Search Tree' : 
-                           result.structure === 'Hash' ? 'Hash Table' : 'Trie'}
+                          <div className="w-4 h-4 rounded-full" style={{ backgroundColor: getStructureDefinition(result.structure).color }}></div>
+                          {getStructureDefinition(result.structure).name}
                         </h3>
                         <Badge style={{ 
-                          backgroundColor: `${result.structure === 'BST' ? '#22c55e' : 
-                                           result.structure === 'Hash' ? '#3b82f6' : '#f97316'}20`,
-                          color: result.structure === 'BST' ? '#22c55e' : 
-                                result.structure === 'Hash' ? '#3b82f6' : '#f97316'
+                          backgroundColor: `${getStructureDefinition(result.structure).color}20`,
+                          color: getStructureDefinition(result.structure).color
                         }}>
                           {result.cacheEfficiency.toFixed(1)}% Efficiency
                         </Badge>
                       </div>
                       
-                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
                         <div className="text-center">
                           <p className="text-sm text-gray-600">Latency</p>
                           <p className="text-lg">{formatTime(result.realLatency)}</p>
@@ -418,6 +413,10 @@ export function RealSystemAnalysis({ onNavigate }: RealSystemAnalysisProps) {
                           <p className="text-sm text-gray-600">Memory Usage</p>
                           <p className="text-lg">{formatBytes(result.memoryUsage)}</p>
                         </div>
+                        <div className="text-center">
+                          <p className="text-sm text-gray-600">Estimated Memory</p>
+                          <p className="text-lg">{formatBytes(result.estimatedMemory)}</p>
+                        </div>
                         <div className="text-center">
                           <p className="text-sm text-gray-600">CPU Usage</p>
                           <p className="text-lg">{result.cpuUsage.toFixed(1)}%</p>
@@ -6,28 +6,84 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { Badge } from './ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip';
 import { Progress } from './ui/progress';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { PageType } from '../App';
-import { ArrowLeft, BarChart3, TrendingUp, Cpu, Database, Clock, Play, Square, RotateCcw } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line, Tooltip as RechartsTooltip } from 'recharts';
-import { FileAccessSimulator, StructureType as SimStructureType, WorkloadSize, SimulationResult } from './simulation/FileAccessSimulator';
+import { ArrowLeft, BarChart3, TrendingUp, Cpu, Database, Clock, Play, Square, RotateCcw, Layers, Shuffle, Download } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line, ScatterChart, Scatter, Tooltip as RechartsTooltip } from 'recharts';
+import { FileAccessSimulator, StructureType as SimStructureType, WorkloadSize, SimulationResult, OPERATION_MIX_PRESETS } from './simulation/FileAccessSimulator';
 import { RealSystemSimulator, RealSystemResult } from './simulation/RealSystemSimulator';
+import { CacheHierarchyConfig } from './simulation/CacheSimulator';
+import { DEFAULT_SEED, normalizeSeed, randomSeed } from './simulation/Random';
+import { WorkloadDistributionType, WorkloadDistributionOptions, WORKLOAD_DISTRIBUTIONS, WORKLOAD_DISTRIBUTION_LABELS, DEFAULT_WORKLOAD_OPTIONS } from './simulation/WorkloadDistributions';
+import { getStructureDefinition, getStructureDefinitions, getStructureIds } from './simulation/StructureRegistry';
+import { HashFunctionType, HASH_FUNCTIONS, HashDistributionReport } from './simulation/HashFunctions';
+import { CacheHierarchyPanel } from './CacheHierarchyPanel';
+import { TraceImportPanel } from './TraceImportPanel';
+import { ImportedTrace } from './simulation/TraceImport';
+import { OperationLogFormat, formatOperationLog, operationLogFileName } from './simulation/TraceExport';
+import { FuzzySearchDemo } from './FuzzySearchDemo';
 
 interface SimulationDashboardProps {
   onNavigate: (page: PageType) => void;
+  cacheConfig: CacheHierarchyConfig;
+  onCacheConfigChange: (config: CacheHierarchyConfig) => void;
 }
 
 type StructureType = SimStructureType;
 
-export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
+// One empty slot per registered structure
+const emptyResults = (): Record<StructureType, SimulationResult | null> =>
+  Object.fromEntries(getStructureIds().map(id => [id, null])) as Record<StructureType, SimulationResult | null>;
+
+// The one knob exposed for each tunable access pattern
+const distributionParameters: Partial<Record<WorkloadDistributionType, {
+  option: keyof WorkloadDistributionOptions;
+  label: string;
+  values: Array<{ value: number; label: string }>;
+}>> = {
+  Zipf: {
+    option: 'zipfAlpha',
+    label: 'Alpha',
+    values: [0.5, 0.8, 1.0, 1.2, 1.5].map(value => ({ value, label: value.toFixed(1) }))
+  },
+  Looping: {
+    option: 'loopLength',
+    label: 'Loop',
+    values: [1000, 2500, 5000].map(value => ({ value, label: `${value} files` }))
+  },
+  HotSpot: {
+    option: 'hotSpotWidth',
+    label: 'Width',
+    values: [0.01, 0.02, 0.05, 0.1].map(value => ({ value, label: `σ ${value * 100}%` }))
+  },
+  MovingHotSet: {
+    option: 'shiftInterval',
+    label: 'Shift',
+    values: [250, 500, 1000, 2500].map(value => ({ value, label: `every ${value} ops` }))
+  }
+};
+
+export function SimulationDashboard({ onNavigate, cacheConfig, onCacheConfigChange }: SimulationDashboardProps) {
   const [selectedStructure, setSelectedStructure] = useState<StructureType>('BST');
   const [workloadSize, setWorkloadSize] = useState<WorkloadSize>('Medium');
+  const [operationMix, setOperationMix] = useState('Read only');
+  const [distribution, setDistribution] = useState<WorkloadDistributionType>('Pareto');
+  const [distributionOptions, setDistributionOptions] = useState<WorkloadDistributionOptions>({});
+  const [hashFunction, setHashFunction] = useState<HashFunctionType>('Java');
+  const [bTreeOrder, setBTreeOrder] = useState(64);
+  const [indexBlockCaching, setIndexBlockCaching] = useState(false);
+  const [seed, setSeed] = useState(DEFAULT_SEED);
+  const [trace, setTrace] = useState<ImportedTrace | null>(null);
+  const [recordOperations, setRecordOperations] = useState(false);
+  const [hashReports, setHashReports] = useState<HashDistributionReport[]>([]);
+  const [trieFootprints, setTrieFootprints] = useState<any[]>([]);
   const [isRunning, setIsRunning] = useState(false);
-  const [simulationResults, setSimulationResults] = useState<Record<StructureType, SimulationResult | null>>({
-    BST: null,
-    Hash: null,
-    Trie: null
-  });
+  const [simulationResults, setSimulationResults] = useState<Record<StructureType, SimulationResult | null>>(emptyResults);
   const [currentStats, setCurrentStats] = useState<Partial<SimulationResult> | null>(null);
+  const [latencyTimeline, setLatencyTimeline] = useState<Array<{ operations: number; avgLatency: number; maxLatency: number }>>([]);
   const [progress, setProgress] = useState(0);
   const [cacheStats, setCacheStats] = useState<any>(null);
   const [systemAnalysisMode, setSystemAnalysisMode] = useState<'simulated' | 'real'>('simulated');
@@ -41,6 +97,8 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
   useEffect(() => {
     simulatorRef.current = new FileAccessSimulator();
     realSimulatorRef.current = new RealSystemSimulator();
+    setHashReports(simulatorRef.current.getHashDistributionReports());
+    setTrieFootprints(simulatorRef.current.getTrieFootprints());
     
     // Get system information on load
     if (realSimulatorRef.current) {
@@ -50,13 +108,109 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
     }
   }, []);
 
-  // Default/fallback data for when no simulation has been run
-  const defaultPerformanceData = {
-    BST: { hitRate: 0, missRate: 0, latency: 0, color: '#22c55e' },
-    Hash: { hitRate: 0, missRate: 0, latency: 0, color: '#3b82f6' },
-    Trie: { hitRate: 0, missRate: 0, latency: 0, color: '#f97316' }
+  // Apply hierarchy changes to the simulated cache; stale stats no longer describe it
+  useEffect(() => {
+    if (simulatorRef.current) {
+      simulatorRef.current.setCacheHierarchy(cacheConfig);
+    }
+    setCacheStats(null);
+  }, [cacheConfig]);
+
+  useEffect(() => {
+    if (simulatorRef.current) {
+      simulatorRef.current.setOperationMix(OPERATION_MIX_PRESETS[operationMix]);
+    }
+  }, [operationMix]);
+
+  useEffect(() => {
+    simulatorRef.current?.setWorkloadDistribution(distribution, distributionOptions);
+    realSimulatorRef.current?.setWorkloadDistribution(distribution, distributionOptions);
+  }, [distribution, distributionOptions]);
+
+  useEffect(() => {
+    if (simulatorRef.current) {
+      simulatorRef.current.setHashFunction(hashFunction);
+    }
+  }, [hashFunction]);
+
+  useEffect(() => {
+    if (simulatorRef.current) {
+      simulatorRef.current.setBTreeOrder(bTreeOrder);
+    }
+  }, [bTreeOrder]);
+
+  useEffect(() => {
+    if (simulatorRef.current) {
+      simulatorRef.current.setIndexBlockCaching(indexBlockCaching);
+    }
+  }, [indexBlockCaching]);
+
+  useEffect(() => {
+    simulatorRef.current?.setRecording(recordOperations);
+  }, [recordOperations]);
+
+  // Seeds are applied when a run starts: a new seed regenerates the file set and rebuilds every structure
+  const applySeed = () => {
+    const simulator = simulatorRef.current;
+    if (simulator && simulator.getSeed() !== normalizeSeed(seed)) {
+      simulator.setSeed(seed);
+      setHashReports(simulator.getHashDistributionReports());
+      setTrieFootprints(simulator.getTrieFootprints());
+    }
+    realSimulatorRef.current?.setSeed(seed);
+  };
+
+  // A loaded trace replaces the file set, so the per-path reports are recomputed
+  const loadTrace = (imported: ImportedTrace | null) => {
+    const simulator = simulatorRef.current;
+    if (!simulator) return;
+    if (imported) {
+      simulator.loadTrace(imported);
+    } else {
+      simulator.clearTrace();
+    }
+    setTrace(imported);
+    setHashReports(simulator.getHashDistributionReports());
+    setTrieFootprints(simulator.getTrieFootprints());
+    resetSimulation();
+  };
+
+  // Download the selected structure's recorded operations
+  const exportOperationLog = (format: OperationLogFormat) => {
+    const result = simulationResults[selectedStructure];
+    if (!result?.operationLog) return;
+    const blob = new Blob([formatOperationLog(result.operationLog, format)], {
+      type: format === 'csv' ? 'text/csv' : 'application/x-ndjson'
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = operationLogFileName(selectedStructure, result.seed, format);
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
+  // Write back all dirty lines so their cost shows up in the stats
+  const flushCache = () => {
+    if (!simulatorRef.current) return;
+    simulatorRef.current.flushCache();
+    setCacheStats(simulatorRef.current.getCacheStats());
+  };
+
+  const levelColorClasses = ['text-green-600', 'text-yellow-600', 'text-red-600', 'text-purple-600'];
+
+  const formatPolicyStats = (policyStats: Record<string, number> | undefined) => {
+    if (!policyStats) return '';
+    return Object.entries(policyStats)
+      .map(([name, value]) => `${name}: ${Math.round(value * 10) / 10}`)
+      .join(', ');
+  };
+
+  const structureColor = getStructureDefinition(selectedStructure).color;
+
+  // Default/fallback data for when no simulation has been run
+  const defaultPerformanceData = { hitRate: 0, missRate: 0, latency: 0, color: structureColor };
+
   // Get current data from simulation results or defaults
   const getCurrentData = () => {
     const result = simulationResults[selectedStructure];
@@ -65,42 +219,78 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
         hitRate: Math.round(result.hitRate * 10) / 10,
         missRate: Math.round(result.missRate * 10) / 10,
         latency: Math.round(result.avgLatency * 100) / 100,
-        color: defaultPerformanceData[selectedStructure].color
+        color: structureColor
       };
     }
     return currentStats ? {
       hitRate: Math.round((currentStats.hitRate || 0) * 10) / 10,
       missRate: Math.round((currentStats.missRate || 0) * 10) / 10,
       latency: Math.round((currentStats.avgLatency || 0) * 100) / 100,
-      color: defaultPerformanceData[selectedStructure].color
-    } : defaultPerformanceData[selectedStructure];
+      color: structureColor
+    } : defaultPerformanceData;
   };
 
   const currentData = getCurrentData();
 
   // Prepare chart data
-  const cacheHitData = [
-    { name: 'BST', hitRate: simulationResults.BST?.hitRate || 0, missRate: simulationResults.BST?.missRate || 0 },
-    { name: 'Hash', hitRate: simulationResults.Hash?.hitRate || 0, missRate: simulationResults.Hash?.missRate || 0 },
-    { name: 'Trie', hitRate: simulationResults.Trie?.hitRate || 0, missRate: simulationResults.Trie?.missRate || 0 }
-  ];
+  const cacheHitData = getStructureIds().map(name => ({
+    name,
+    hitRate: simulationResults[name]?.hitRate || 0,
+    missRate: simulationResults[name]?.missRate || 0
+  }));
 
-  const latencyData = [
-    { name: 'BST', latency: simulationResults.BST?.avgLatency || 0 },
-    { name: 'Hash', latency: simulationResults.Hash?.avgLatency || 0 },
-    { name: 'Trie', latency: simulationResults.Trie?.avgLatency || 0 }
-  ];
+  const optimalGapData = cacheHitData.map(entry => {
+    const result = simulationResults[entry.name];
+    return {
+      name: entry.name,
+      actual: result?.referenceHitRate || 0,
+      optimal: result?.optimalHitRate || 0
+    };
+  });
+
+  // Compulsory / capacity / conflict / coherence misses per cache level
+  const missBreakdownData = (cacheStats?.levels ?? []).map((level: any) => ({
+    name: level.name,
+    ...level.missBreakdown
+  }));
+
+  const reuseProfile = simulationResults[selectedStructure]?.reuseProfile ?? null;
+
+  const operationBreakdown = simulationResults[selectedStructure]?.operationBreakdown ?? [];
+
+  const selectedHashReport = hashReports.find(report => report.hashFunction === hashFunction);
+
+  const latencyData = getStructureIds().map(name => ({
+    name,
+    latency: simulationResults[name]?.avgLatency || 0
+  }));
+
+  const memoryData = getStructureIds().map(name => ({
+    name,
+    memory: Math.round((simulationResults[name]?.estimatedMemory || 0) / 1024)
+  }));
+
+  const spaceTimeData = getStructureDefinitions()
+    .filter(definition => simulationResults[definition.id])
+    .map(definition => ({
+      structure: definition.id,
+      name: definition.name,
+      color: definition.color,
+      memory: Math.round(simulationResults[definition.id]!.estimatedMemory / 1024),
+      latency: simulationResults[definition.id]!.avgLatency
+    }));
 
   const pieData = [
     { name: 'Hit', value: currentData.hitRate, fill: currentData.color },
     { name: 'Miss', value: currentData.missRate, fill: '#e5e7eb' }
   ];
 
-  const workloadData = [
-    { workload: 'Small', BST: 0, Hash: 0, Trie: 0 },
-    { workload: 'Medium', BST: 0, Hash: 0, Trie: 0 },
-    { workload: 'Large', BST: 0, Hash: 0, Trie: 0 }
-  ];
+  const distributionParameter = distributionParameters[distribution];
+
+  const workloadData = (['Small', 'Medium', 'Large'] as WorkloadSize[]).map(workload => ({
+    workload,
+    ...Object.fromEntries(getStructureIds().map(id => [id, 0]))
+  }));
 
   // Run simulation for selected structure
   const runSimulation = async () => {
@@ -109,6 +299,8 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
     setIsRunning(true);
     setProgress(0);
     setCurrentStats(null);
+    setLatencyTimeline([]);
+    applySeed();
 
     try {
       if (systemAnalysisMode === 'real' && realSimulatorRef.current) {
@@ -128,6 +320,16 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
             maxLatency: realResult.realLatency * 1.5,
             minLatency: realResult.realLatency * 0.5,
             throughput: realResult.realThroughput,
+            optimalHitRate: 0,
+            referenceHitRate: realResult.cacheEfficiency,
+            optimalGap: 0,
+            reuseProfile: null,
+            seed: realResult.seed,
+            distribution: realResult.distribution,
+            trace: null,
+            operationBreakdown: [],
+            operationLog: null,
+            estimatedMemory: realResult.estimatedMemory,
             cacheStats: null,
             operationsPerformed: 1000,
             totalTime: 1000 / realResult.realThroughput * 1000
@@ -146,6 +348,11 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
           (progressValue, stats) => {
             setProgress(progressValue);
             setCurrentStats(stats);
+            setLatencyTimeline(prev => [...prev, {
+              operations: stats.operationsPerformed || 0,
+              avgLatency: stats.avgLatency || 0,
+              maxLatency: stats.maxLatency || 0
+            }]);
           },
           50 // Update every 50 operations
         );
@@ -158,6 +365,7 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
         // Get cache stats
         const cacheStatsData = simulatorRef.current.getCacheStats();
         setCacheStats(cacheStatsData);
+        setTrieFootprints(simulatorRef.current.getTrieFootprints());
       }
     } catch (error) {
       console.error('Simulation error:', error);
@@ -173,6 +381,7 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
     
     setIsRunning(true);
     setProgress(0);
+    applySeed();
 
     try {
       if (systemAnalysisMode === 'real' && realSimulatorRef.current) {
@@ -182,11 +391,7 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
         setSystemInfo(analysis.systemInfo);
         
         // Convert real system results to simulation results format
-        const resultMap: Record<StructureType, SimulationResult | null> = {
-          BST: null,
-          Hash: null,
-          Trie: null
-        };
+        const resultMap = emptyResults();
 
         analysis.structureResults.forEach(realResult => {
           const simulationResult: SimulationResult = {
@@ -197,6 +402,16 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
             maxLatency: realResult.realLatency * 1.5,
             minLatency: realResult.realLatency * 0.5,
             throughput: realResult.realThroughput,
+            optimalHitRate: 0,
+            referenceHitRate: realResult.cacheEfficiency,
+            optimalGap: 0,
+            reuseProfile: null,
+            seed: realResult.seed,
+            distribution: realResult.distribution,
+            trace: null,
+            operationBreakdown: [],
+            operationLog: null,
+            estimatedMemory: realResult.estimatedMemory,
             cacheStats: null,
             operationsPerformed: 1000,
             totalTime: 1000 / realResult.realThroughput * 1000
@@ -210,11 +425,7 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
         // Run simulated analysis
         const results = await simulatorRef.current.runComparativeSimulation(workloadSize);
         
-        const resultMap: Record<StructureType, SimulationResult | null> = {
-          BST: null,
-          Hash: null,
-          Trie: null
-        };
+        const resultMap = emptyResults();
 
         results.forEach(result => {
           resultMap[result.structure] = result;
@@ -225,6 +436,7 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
         // Get cache stats for current structure
         const cacheStatsData = simulatorRef.current.getCacheStats();
         setCacheStats(cacheStatsData);
+        setTrieFootprints(simulatorRef.current.getTrieFootprints());
       }
     } catch (error) {
       console.error('Comparative simulation error:', error);
@@ -244,12 +456,9 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
 
   // Reset all data
   const resetSimulation = () => {
-    setSimulationResults({
-      BST: null,
-      Hash: null,
-      Trie: null
-    });
+    setSimulationResults(emptyResults());
     setCurrentStats(null);
+    setLatencyTimeline([]);
     setProgress(0);
     setCacheStats(null);
   };
@@ -296,7 +505,7 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
           {/* Controls */}
           <Card className="p-6 rounded-2xl shadow-lg border-0">
             <div className="flex items-center justify-between mb-4">
-              <div className="flex items-center gap-4">
+              <div className="flex flex-wrap items-center gap-4">
                 <div className="flex items-center gap-2">
                   <Database className="w-5 h-5 text-gray-600" />
                   <label className="text-sm">Search Structure:</label>
@@ -306,9 +515,9 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="BST">Binary Search Tree</SelectItem>
-                    <SelectItem value="Hash">Hash Table</SelectItem>
-                    <SelectItem value="Trie">Trie (Prefix Tree)</SelectItem>
+                    {getStructureDefinitions().map(definition => (
+                      <SelectItem key={definition.id} value={definition.id}>{definition.name}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
 
@@ -325,12 +534,48 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
                   </SelectContent>
                 </Select>
 
+                <div className="flex items-center gap-2">
+                  <label className="text-sm">Pattern:</label>
+                </div>
+                <Select value={distribution} onValueChange={(value) => setDistribution(value as WorkloadDistributionType)} disabled={trace !== null && systemAnalysisMode === 'simulated'}>
+                  <SelectTrigger className="w-[170px] rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WORKLOAD_DISTRIBUTIONS.map(type => (
+                      <SelectItem key={type} value={type}>{WORKLOAD_DISTRIBUTION_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {distributionParameter && (
+                  <>
+                    <div className="flex items-center gap-2">
+                      <label className="text-sm">{distributionParameter.label}:</label>
+                    </div>
+                    <Select
+                      value={String(distributionOptions[distributionParameter.option] ?? DEFAULT_WORKLOAD_OPTIONS[distributionParameter.option])}
+                      onValueChange={(value) => setDistributionOptions(prev => ({ ...prev, [distributionParameter.option]: Number(value) }))}
+                      disabled={trace !== null && systemAnalysisMode === 'simulated'}
+                    >
+                      <SelectTrigger className="w-[150px] rounded-xl">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {distributionParameter.values.map(({ value, label }) => (
+                          <SelectItem key={value} value={String(value)}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </>
+                )}
+
                 {systemAnalysisMode === 'simulated' && (
                   <>
                     <div className="flex items-center gap-2">
                       <label className="text-sm">Workload:</label>
                     </div>
-                    <Select value={workloadSize} onValueChange={(value) => setWorkloadSize(value as WorkloadSize)}>
+                    <Select value={workloadSize} onValueChange={(value) => setWorkloadSize(value as WorkloadSize)} disabled={trace !== null}>
                       <SelectTrigger className="w-[120px] rounded-xl">
                         <SelectValue />
                       </SelectTrigger>
@@ -340,6 +585,69 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
                         <SelectItem value="Large">Large (10K)</SelectItem>
                       </SelectContent>
                     </Select>
+
+                    <div className="flex items-center gap-2">
+                      <label className="text-sm">Mix:</label>
+                    </div>
+                    <Select value={operationMix} onValueChange={setOperationMix} disabled={trace !== null}>
+                      <SelectTrigger className="w-[160px] rounded-xl">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(OPERATION_MIX_PRESETS).map(([name, mix]) => (
+                          <SelectItem key={name} value={name}>
+                            {name} ({Object.entries(mix).map(([type, weight]) => `${Math.round(weight! * 100)}% ${type}`).join(' / ')})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {selectedStructure === 'Hash' && (
+                      <>
+                        <div className="flex items-center gap-2">
+                          <label className="text-sm">Hash:</label>
+                        </div>
+                        <Select value={hashFunction} onValueChange={(value) => setHashFunction(value as HashFunctionType)}>
+                          <SelectTrigger className="w-[120px] rounded-xl">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {HASH_FUNCTIONS.map(name => (
+                              <SelectItem key={name} value={name}>{name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </>
+                    )}
+
+                    {(selectedStructure === 'BTree' || selectedStructure === 'BPlusTree') && (
+                      <>
+                        <div className="flex items-center gap-2">
+                          <label className="text-sm">Order:</label>
+                        </div>
+                        <Select value={String(bTreeOrder)} onValueChange={(value) => setBTreeOrder(Number(value))}>
+                          <SelectTrigger className="w-[100px] rounded-xl">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="4">4</SelectItem>
+                            <SelectItem value="16">16</SelectItem>
+                            <SelectItem value="64">64</SelectItem>
+                            <SelectItem value="256">256</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <div className="flex items-center space-x-2">
+                          <Switch
+                            id="index-block-caching"
+                            checked={indexBlockCaching}
+                            onCheckedChange={setIndexBlockCaching}
+                          />
+                          <Label htmlFor="index-block-caching" className="cursor-pointer text-sm">
+                            Cache nodes
+                          </Label>
+                        </div>
+                      </>
+                    )}
                   </>
                 )}
 
@@ -407,6 +715,69 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
                   <RotateCcw className="w-4 h-4 mr-2" />
                   Reset
                 </Button>
+
+                <div className="flex items-center gap-2">
+                  <label className="text-sm">Seed:</label>
+                </div>
+                <Input
+                  className="w-[130px] rounded-xl"
+                  type="number"
+                  min={0}
+                  value={seed}
+                  disabled={isRunning}
+                  onChange={(e) => setSeed(normalizeSeed(Number(e.target.value) || 0))}
+                />
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      onClick={() => setSeed(randomSeed())}
+                      disabled={isRunning}
+                      variant="outline"
+                      className="rounded-xl"
+                    >
+                      <Shuffle className="w-4 h-4" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>New random seed; runs with the same seed and settings are identical</TooltipContent>
+                </Tooltip>
+
+                {systemAnalysisMode === 'simulated' && (
+                  <>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="record-operations"
+                        checked={recordOperations}
+                        onCheckedChange={setRecordOperations}
+                        disabled={isRunning}
+                      />
+                      <Label htmlFor="record-operations" className="cursor-pointer text-sm">
+                        Record ops
+                      </Label>
+                    </div>
+                    {simulationResults[selectedStructure]?.operationLog && (
+                      <>
+                        <Button
+                          onClick={() => exportOperationLog('jsonl')}
+                          disabled={isRunning}
+                          variant="outline"
+                          className="rounded-xl"
+                        >
+                          <Download className="w-4 h-4 mr-2" />
+                          JSONL
+                        </Button>
+                        <Button
+                          onClick={() => exportOperationLog('csv')}
+                          disabled={isRunning}
+                          variant="outline"
+                          className="rounded-xl"
+                        >
+                          <Download className="w-4 h-4 mr-2" />
+                          CSV
+                        </Button>
+                      </>
+                    )}
+                  </>
+                )}
               </div>
 
               {isRunning && (
@@ -421,15 +792,37 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
             </div>
           </Card>
 
+          <CacheHierarchyPanel
+            config={cacheConfig}
+            onChange={onCacheConfigChange}
+            disabled={isRunning}
+          />
+
+          {systemAnalysisMode === 'simulated' && (
+            <TraceImportPanel
+              trace={trace}
+              onLoad={loadTrace}
+              onClear={() => loadTrace(null)}
+              disabled={isRunning}
+            />
+          )}
+
+          <FuzzySearchDemo
+            onSearch={(path, maxDistance) => simulatorRef.current?.fuzzyLookup(path, maxDistance) ?? null}
+            onRandomTypo={() => simulatorRef.current?.generateTypoPath() ?? ''}
+            disabled={isRunning}
+          />
+
           {/* Main Content */}
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             {/* Charts Section */}
             <div className="lg:col-span-2">
               <Tabs defaultValue="cache-performance" className="space-y-6">
-                <TabsList className="grid w-full grid-cols-3 rounded-xl bg-white shadow-md">
+                <TabsList className="grid w-full grid-cols-4 rounded-xl bg-white shadow-md">
                   <TabsTrigger value="cache-performance" className="rounded-lg">Cache Performance</TabsTrigger>
                   <TabsTrigger value="latency" className="rounded-lg">Latency Analysis</TabsTrigger>
                   <TabsTrigger value="workload" className="rounded-lg">Workload Impact</TabsTrigger>
+                  <TabsTrigger value="hashing" className="rounded-lg">Hash Distribution</TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="cache-performance" className="space-y-6">
@@ -483,9 +876,103 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
                       </div>
                     </Card>
                   </div>
+
+                  {/* Optimal (Belady) Baseline */}
+                  <Card className="p-6 rounded-2xl shadow-lg border-0">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg flex items-center gap-2">
+                        <TrendingUp className="w-5 h-5" />
+                        Actual vs Optimal Hit Rate
+                      </h3>
+                      {simulationResults[selectedStructure] && (
+                        <Badge variant="outline">
+                          Optimal gap: {Math.round(simulationResults[selectedStructure]!.optimalGap * 10) / 10} pts
+                        </Badge>
+                      )}
+                    </div>
+                    <ResponsiveContainer width="100%" height={220}>
+                      <BarChart data={optimalGapData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="name" />
+                        <YAxis domain={[0, 100]} />
+                        <RechartsTooltip formatter={(value: number, name) => [`${Math.round(value * 10) / 10}%`, name]} />
+                        <Bar dataKey="actual" fill="#3b82f6" name="Actual" />
+                        <Bar dataKey="optimal" fill="#a855f7" name="Belady OPT" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </Card>
+
+                  {/* 3C Miss Classification */}
+                  <Card className="p-6 rounded-2xl shadow-lg border-0">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg flex items-center gap-2">
+                        <Layers className="w-5 h-5" />
+                        Miss Classification (3C)
+                      </h3>
+                      {cacheStats && (
+                        <Badge variant="outline">
+                          {cacheStats.overall.missBreakdown.compulsory} / {cacheStats.overall.missBreakdown.capacity} / {cacheStats.overall.missBreakdown.conflict} / {cacheStats.overall.missBreakdown.coherence}
+                        </Badge>
+                      )}
+                    </div>
+                    <ResponsiveContainer width="100%" height={220}>
+                      <BarChart data={missBreakdownData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="name" />
+                        <YAxis />
+                        <RechartsTooltip />
+                        <Bar dataKey="compulsory" stackId="misses" fill="#64748b" name="Compulsory" />
+                        <Bar dataKey="capacity" stackId="misses" fill="#f97316" name="Capacity" />
+                        <Bar dataKey="conflict" stackId="misses" fill="#ef4444" name="Conflict" />
+                        <Bar dataKey="coherence" stackId="misses" fill="#8b5cf6" name="Coherence" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </Card>
+
+                  {/* Reuse Distance / Miss-Ratio Curve */}
+                  <Card className="p-6 rounded-2xl shadow-lg border-0">
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg flex items-center gap-2">
+                        <TrendingUp className="w-5 h-5" />
+                        {selectedStructure} Miss-Ratio Curve
+                      </h3>
+                      {reuseProfile && (
+                        <Badge variant="outline">
+                          {reuseProfile.uniqueKeys} unique files, {reuseProfile.coldMisses} cold misses
+                        </Badge>
+                      )}
+                    </div>
+                    {reuseProfile ? (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <ResponsiveContainer width="100%" height={220}>
+                          <LineChart data={reuseProfile.missRatioCurve}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="size" />
+                            <YAxis domain={[0, 100]} />
+                            <RechartsTooltip
+                              labelFormatter={(size) => `${size} entries`}
+                              formatter={(value: number) => [`${Math.round(value * 10) / 10}%`, 'LRU miss ratio']}
+                            />
+                            <Line type="monotone" dataKey="missRatio" stroke="#ef4444" strokeWidth={2} />
+                          </LineChart>
+                        </ResponsiveContainer>
+                        <ResponsiveContainer width="100%" height={220}>
+                          <BarChart data={reuseProfile.histogram}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="bucket" />
+                            <YAxis />
+                            <RechartsTooltip labelFormatter={(bucket) => `Reuse distance ${bucket}`} />
+                            <Bar dataKey="count" fill="#3b82f6" name="Accesses" />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500">Run a simulation to see how the hit rate scales with cache size.</p>
+                    )}
+                  </Card>
                 </TabsContent>
 
-                <TabsContent value="latency">
+                <TabsContent value="latency" className="space-y-6">
                   <Card className="p-6 rounded-2xl shadow-lg border-0">
                     <h3 className="text-lg mb-4">Latency Comparison</h3>
                     <ResponsiveContainer width="100%" height={300}>
@@ -498,9 +985,73 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
                       </BarChart>
                     </ResponsiveContainer>
                   </Card>
+
+                  <Card className="p-6 rounded-2xl shadow-lg border-0">
+                    <h3 className="text-lg mb-4">Estimated Memory</h3>
+                    <ResponsiveContainer width="100%" height={300}>
+                      <BarChart data={memoryData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="name" />
+                        <YAxis label={{ value: 'Memory (KB)', angle: -90, position: 'insideLeft' }} />
+                        <RechartsTooltip formatter={(value: number) => [`${value.toLocaleString()} KB`, 'Memory']} />
+                        <Bar dataKey="memory" fill="#8b5cf6" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </Card>
+
+                  {/* Realtime latency: worst operation per update window exposes pauses such as hash table rehashes */}
+                  <Card className="p-6 rounded-2xl shadow-lg border-0">
+                    <h3 className="text-lg mb-4 flex items-center gap-2">
+                      <Clock className="w-5 h-5" />
+                      {selectedStructure} Latency Over Time
+                    </h3>
+                    {latencyTimeline.length > 0 ? (
+                      <ResponsiveContainer width="100%" height={220}>
+                        <LineChart data={latencyTimeline}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="operations" />
+                          <YAxis label={{ value: 'Latency (ms)', angle: -90, position: 'insideLeft' }} />
+                          <RechartsTooltip
+                            labelFormatter={(operations) => `${operations} operations`}
+                            formatter={(value: number, name) => [`${Math.round(value * 1000) / 1000}ms`, name]}
+                          />
+                          <Line type="monotone" dataKey="avgLatency" stroke="#3b82f6" strokeWidth={2} dot={false} name="Average" />
+                          <Line type="monotone" dataKey="maxLatency" stroke="#ef4444" strokeWidth={1} dot={false} name="Worst in window" />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    ) : (
+                      <p className="text-sm text-gray-500">Run a single-structure simulation to record latency over time.</p>
+                    )}
+                  </Card>
+
+                  {/* Space / time trade-off: modeled memory of each structure against its average latency */}
+                  <Card className="p-6 rounded-2xl shadow-lg border-0">
+                    <h3 className="text-lg mb-4 flex items-center gap-2">
+                      <Database className="w-5 h-5" />
+                      Space / Time Trade-off
+                    </h3>
+                    {spaceTimeData.length > 0 ? (
+                      <ResponsiveContainer width="100%" height={300}>
+                        <ScatterChart>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis type="number" dataKey="memory" name="Memory" unit=" KB" />
+                          <YAxis type="number" dataKey="latency" name="Latency" unit="ms" />
+                          <RechartsTooltip
+                            cursor={{ strokeDasharray: '3 3' }}
+                            formatter={(value: number, name) => [name === 'Memory' ? `${value.toLocaleString()} KB` : `${Math.round(value * 1000) / 1000}ms`, name]}
+                          />
+                          {spaceTimeData.map(point => (
+                            <Scatter key={point.structure} name={point.name} data={[point]} fill={point.color} />
+                          ))}
+                        </ScatterChart>
+                      </ResponsiveContainer>
+                    ) : (
+                      <p className="text-sm text-gray-500">Run a simulation to place structures by memory and latency.</p>
+                    )}
+                  </Card>
                 </TabsContent>
 
-                <TabsContent value="workload">
+                <TabsContent value="workload" className="space-y-6">
                   <Card className="p-6 rounded-2xl shadow-lg border-0">
                     <h3 className="text-lg mb-4">Latency vs Workload Size</h3>
                     <ResponsiveContainer width="100%" height={300}>
@@ -508,26 +1059,141 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
                         <CartesianGrid strokeDasharray="3 3" />
                         <XAxis dataKey="workload" />
                         <YAxis label={{ value: 'Latency (ms)', angle: -90, position: 'insideLeft' }} />
-                        <Line type="monotone" dataKey="BST" stroke="#22c55e" strokeWidth={2} />
-                        <Line type="monotone" dataKey="Hash" stroke="#3b82f6" strokeWidth={2} />
-                        <Line type="monotone" dataKey="Trie" stroke="#f97316" strokeWidth={2} />
+                        {getStructureDefinitions().map(definition => (
+                          <Line key={definition.id} type="monotone" dataKey={definition.id} stroke={definition.color} strokeWidth={2} />
+                        ))}
                       </LineChart>
                     </ResponsiveContainer>
-                    <div className="flex justify-center gap-6 mt-4">
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 rounded-full bg-green-500"></div>
-                        <span className="text-sm">BST</span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 rounded-full bg-blue-500"></div>
-                        <span className="text-sm">Hash Table</span>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 rounded-full bg-orange-500"></div>
-                        <span className="text-sm">Trie</span>
-                      </div>
+                    <div className="flex flex-wrap justify-center gap-6 mt-4">
+                      {getStructureDefinitions().map(definition => (
+                        <div key={definition.id} className="flex items-center gap-2">
+                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: definition.color }}></div>
+                          <span className="text-sm">{definition.name}</span>
+                        </div>
+                      ))}
                     </div>
                   </Card>
+
+                  {/* Per operation type breakdown for the selected structure */}
+                  <Card className="p-6 rounded-2xl shadow-lg border-0">
+                    <h3 className="text-lg mb-4 flex items-center gap-2">
+                      <Layers className="w-5 h-5" />
+                      Operations by Type ({selectedStructure})
+                    </h3>
+                    {operationBreakdown.length > 0 ? (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Operation</TableHead>
+                            <TableHead className="text-center">Count</TableHead>
+                            <TableHead className="text-center">Cache Hit Rate</TableHead>
+                            <TableHead className="text-center">Avg Latency</TableHead>
+                            <TableHead className="text-center">Avg Cost ({getStructureDefinition(selectedStructure).costUnit})</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {operationBreakdown.map(row => (
+                            <TableRow key={row.type}>
+                              <TableCell className="font-medium capitalize">{row.type}</TableCell>
+                              <TableCell className="text-center">{row.count.toLocaleString()}</TableCell>
+                              <TableCell className="text-center">{Math.round(row.hitRate * 10) / 10}%</TableCell>
+                              <TableCell className="text-center">{Math.round(row.avgLatency * 1000) / 1000}ms</TableCell>
+                              <TableCell className="text-center">{Math.round(row.avgCost * 10) / 10}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    ) : (
+                      <p className="text-sm text-gray-500">Run a simulation to break latency and cost down by operation type.</p>
+                    )}
+                  </Card>
+
+                  {/* Trie family footprint */}
+                  <Card className="p-6 rounded-2xl shadow-lg border-0">
+                    <h3 className="text-lg mb-4 flex items-center gap-2">
+                      <Database className="w-5 h-5" />
+                      Trie Memory Footprint
+                    </h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Structure</TableHead>
+                          <TableHead className="text-center">Nodes</TableHead>
+                          <TableHead className="text-center">Est. Memory</TableHead>
+                          <TableHead className="text-center">Avg Traversals</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {trieFootprints.map(footprint => (
+                          <TableRow key={footprint.structure}>
+                            <TableCell className="font-medium">
+                              <div className="flex items-center gap-3">
+                                <div
+                                  className="w-4 h-4 rounded-full"
+                                  style={{ backgroundColor: getStructureDefinition(footprint.structure).color }}
+                                ></div>
+                                {footprint.structure}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-center">{footprint.nodes.toLocaleString()}</TableCell>
+                            <TableCell className="text-center">{Math.round(footprint.estimatedBytes / 1024).toLocaleString()} KB</TableCell>
+                            <TableCell className="text-center">{Math.round(footprint.avgNodeTraversals * 10) / 10}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="hashing">
+                  <Card className="p-6 rounded-2xl shadow-lg border-0">
+                    <h3 className="text-lg mb-4 flex items-center gap-2">
+                      <Database className="w-5 h-5" />
+                      Hash Distribution over File Paths
+                    </h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Hash Function</TableHead>
+                          <TableHead className="text-center">Chi-squared / df</TableHead>
+                          <TableHead className="text-center">Max Bucket</TableHead>
+                          <TableHead className="text-center">Empty Buckets</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {hashReports.map(report => (
+                          <TableRow
+                            key={report.hashFunction}
+                            className={report.hashFunction === hashFunction ? 'bg-blue-50' : undefined}
+                          >
+                            <TableCell className="font-medium">{report.hashFunction}</TableCell>
+                            <TableCell className="text-center">{Math.round(report.normalizedChiSquared * 100) / 100}</TableCell>
+                            <TableCell className="text-center">{report.maxBucketLength}</TableCell>
+                            <TableCell className="text-center">
+                              {report.emptyBuckets} / {report.buckets}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+
+                    {selectedHashReport && (
+                      <>
+                        <h4 className="text-sm text-gray-600 mt-6 mb-2">
+                          Bucket lengths with {selectedHashReport.hashFunction} ({selectedHashReport.keys} paths, {selectedHashReport.buckets} buckets)
+                        </h4>
+                        <ResponsiveContainer width="100%" height={200}>
+                          <BarChart data={selectedHashReport.bucketLengthHistogram}>
+                            <CartesianGrid strokeDasharray="3 3" />
+                            <XAxis dataKey="length" />
+                            <YAxis />
+                            <RechartsTooltip labelFormatter={(length) => `${length} keys per bucket`} />
+                            <Bar dataKey="buckets" fill="#3b82f6" name="Buckets" />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </>
+                    )}
+                  </Card>
                 </TabsContent>
               </Tabs>
             </div>
@@ -541,59 +1207,30 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
                   Cache Levels
                 </h3>
                 <div className="space-y-4">
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <div className="space-y-2 cursor-help">
-                        <div className="flex justify-between text-sm">
-                          <span>L1 Cache</span>
-                          <span className="text-green-600">
-                            {cacheStats ? `${Math.round(cacheStats.l1.utilization)}%` : '0%'}
-                          </span>
-                        </div>
-                        <Progress value={cacheStats ? cacheStats.l1.utilization : 0} className="h-2" />
-                      </div>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>L1 Cache: {cacheStats ? `${Math.round(cacheStats.l1.utilization)}%` : '0%'} utilization, 1-2 cycles</p>
-                      {cacheStats && <p>Hits: {cacheStats.l1.hits}, Misses: {cacheStats.l1.misses}</p>}
-                    </TooltipContent>
-                  </Tooltip>
-
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <div className="space-y-2 cursor-help">
-                        <div className="flex justify-between text-sm">
-                          <span>L2 Cache</span>
-                          <span className="text-yellow-600">
-                            {cacheStats ? `${Math.round(cacheStats.l2.utilization)}%` : '0%'}
-                          </span>
-                        </div>
-                        <Progress value={cacheStats ? cacheStats.l2.utilization : 0} className="h-2" />
-                      </div>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>L2 Cache: {cacheStats ? `${Math.round(cacheStats.l2.utilization)}%` : '0%'} utilization, 10-20 cycles</p>
-                      {cacheStats && <p>Hits: {cacheStats.l2.hits}, Misses: {cacheStats.l2.misses}</p>}
-                    </TooltipContent>
-                  </Tooltip>
-
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <div className="space-y-2 cursor-help">
-                        <div className="flex justify-between text-sm">
-                          <span>L3 Cache</span>
-                          <span className="text-red-600">
-                            {cacheStats ? `${Math.round(cacheStats.l3.utilization)}%` : '0%'}
-                          </span>
-                        </div>
-                        <Progress value={cacheStats ? cacheStats.l3.utilization : 0} className="h-2" />
-                      </div>
-                    </TooltipTrigger>
-                    <TooltipContent>
-                      <p>L3 Cache: {cacheStats ? `${Math.round(cacheStats.l3.utilization)}%` : '0%'} utilization, 40-75 cycles</p>
-                      {cacheStats && <p>Hits: {cacheStats.l3.hits}, Misses: {cacheStats.l3.misses}</p>}
-                    </TooltipContent>
-                  </Tooltip>
+                  {cacheConfig.levels.map((level, index) => {
+                    const levelStats = cacheStats?.levels?.[index];
+                    const colorClass = levelColorClasses[index % levelColorClasses.length];
+                    return (
+                      <Tooltip key={`${level.name}-${index}`}>
+                        <TooltipTrigger asChild>
+                          <div className="space-y-2 cursor-help">
+                            <div className="flex justify-between text-sm">
+                              <span>{level.name} Cache</span>
+                              <span className={colorClass}>
+                                {levelStats ? `${Math.round(levelStats.utilization)}%` : '0%'}
+                              </span>
+                            </div>
+                            <Progress value={levelStats ? levelStats.utilization : 0} className="h-2" />
+                          </div>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>{level.name} Cache: {levelStats ? `${Math.round(levelStats.utilization)}%` : '0%'} utilization, {level.latency.min}-{level.latency.max} cycles</p>
+                          {levelStats && <p>Hits: {levelStats.hits}, Misses: {levelStats.misses}</p>}
+                          {levelStats && <p>{levelStats.policy}: {formatPolicyStats(levelStats.policyStats)}</p>}
+                        </TooltipContent>
+                      </Tooltip>
+                    );
+                  })}
                 </div>
               </Card>
 
@@ -628,6 +1265,14 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
                           {Math.round(simulationResults[selectedStructure]!.throughput)} ops/sec
                         </Badge>
                       </div>
+                      {cacheStats && cacheStats.overall.writes > 0 && (
+                        <div className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
+                          <span className="text-sm">Write-backs / Dirty Lines</span>
+                          <Badge variant="outline">
+                            {cacheStats.overall.writeBacks} / {cacheStats.overall.dirtyLines}
+                          </Badge>
+                        </div>
+                      )}
                       <div className="flex items-center justify-between p-3 bg-gray-50 rounded-xl">
                         <span className="text-sm">Operations</span>
                         <Badge variant="outline">
@@ -688,8 +1333,20 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
                       </div>
                       <div className="flex justify-between">
                         <span>Cache Levels:</span>
-                        <span>L1/L2/L3</span>
+                        <span>{cacheConfig.levels.map(level => level.name).join('/')}</span>
                       </div>
+                      {cacheStats && (
+                        <div className="flex justify-between">
+                          <span>Effective Capacity:</span>
+                          <span>{cacheStats.overall.effectiveCapacity} ({cacheStats.overall.inclusionPolicy})</span>
+                        </div>
+                      )}
+                      {cacheStats && cacheStats.overall.inclusionPolicy === 'inclusive' && (
+                        <div className="flex justify-between">
+                          <span>Back-Invalidations:</span>
+                          <span>{cacheStats.overall.backInvalidations}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between">
                         <span>Workload Size:</span>
                         <span>{workloadSize}</span>
@@ -723,6 +1380,14 @@ export function SimulationDashboard({ onNavigate }: SimulationDashboardProps) {
                   >
                     Compare Performance
                   </Button>
+                  <Button 
+                    variant="outline" 
+                    className="w-full justify-start rounded-xl"
+                    onClick={flushCache}
+                    disabled={isRunning || !cacheStats || cacheStats.overall.dirtyLines === 0}
+                  >
+                    Flush Dirty Lines
+                  </Button>
                   <Button 
                     variant="outline" 
                     className="w-full justify-start rounded-xl"
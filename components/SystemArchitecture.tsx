@@ -5,15 +5,19 @@ import { Badge } from './ui/badge';
 import { Switch } from './ui/switch';
 import { Label } from './ui/label';
 import { PageType } from '../App';
+import { CacheHierarchyConfig } from './simulation/CacheSimulator';
+import { CacheHierarchyPanel } from './CacheHierarchyPanel';
 import { ArrowLeft, ArrowRight, HardDrive, Database, Cpu, Layers } from 'lucide-react';
 
 interface SystemArchitectureProps {
   onNavigate: (page: PageType) => void;
+  cacheConfig: CacheHierarchyConfig;
+  onCacheConfigChange: (config: CacheHierarchyConfig) => void;
 }
 
 type SearchStructure = 'BST' | 'Hash' | 'Trie';
 
-export function SystemArchitecture({ onNavigate }: SystemArchitectureProps) {
+export function SystemArchitecture({ onNavigate, cacheConfig, onCacheConfigChange }: SystemArchitectureProps) {
   const [activeStructure, setActiveStructure] = useState<SearchStructure>('BST');
 
   const structures = [
@@ -134,8 +138,10 @@ export function SystemArchitecture({ onNavigate }: SystemArchitectureProps) {
               <div className="text-center">
                 <h3 className="text-lg">CPU Cache</h3>
                 <div className="space-y-1">
-                  <p className="text-xs text-gray-500">L1, L2, L3</p>
-                  <p className="text-xs text-gray-500">Multi-level</p>
+                  <p className="text-xs text-gray-500">{cacheConfig.levels.map(level => level.name).join(', ')}</p>
+                  <p className="text-xs text-gray-500">
+                    {cacheConfig.levels.length > 1 ? 'Multi-level' : 'Single level'}
+                  </p>
                 </div>
               </div>
             </div>
@@ -196,17 +202,19 @@ export function SystemArchitecture({ onNavigate }: SystemArchitectureProps) {
           <Card className="p-6 rounded-2xl shadow-lg border-0">
             <h3 className="text-lg mb-4">Cache Levels</h3>
             <div className="space-y-3">
+              {cacheConfig.levels.map((level, index) => (
+                <div key={`${level.name}-${index}`} className="flex justify-between">
+                  <span className="text-sm">{level.name} Cache</span>
+                  <span className="text-sm text-gray-600">
+                    {level.capacity} entries, {level.latency.min}-{level.latency.max} cycles
+                  </span>
+                </div>
+              ))}
               <div className="flex justify-between">
-                <span className="text-sm">L1 Cache</span>
-                <span className="text-sm text-green-600">95%</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-sm">L2 Cache</span>
-                <span className="text-sm text-yellow-600">70%</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-sm">L3 Cache</span>
-                <span className="text-sm text-red-600">45%</span>
+                <span className="text-sm">{cacheConfig.backingStore.name}</span>
+                <span className="text-sm text-gray-600">
+                  {cacheConfig.backingStore.latency.min}-{cacheConfig.backingStore.latency.max} cycles
+                </span>
               </div>
             </div>
           </Card>
@@ -238,6 +246,9 @@ export function SystemArchitecture({ onNavigate }: SystemArchitectureProps) {
             </div>
           </Card>
         </div>
+
+        {/* Cache Hierarchy Configuration */}
+        <CacheHierarchyPanel config={cacheConfig} onChange={onCacheConfigChange} />
       </div>
     </div>
   );
@@ -0,0 +1,102 @@
+import React, { useRef, useState } from 'react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { FileText, Upload, X } from 'lucide-react';
+import { ImportedTrace, TraceFormat, TRACE_FORMATS, TRACE_FORMAT_LABELS, importTraceFile } from './simulation/TraceImport';
+
+interface TraceImportPanelProps {
+  trace: ImportedTrace | null;
+  onLoad: (trace: ImportedTrace) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+export function TraceImportPanel({ trace, onLoad, onClear, disabled = false }: TraceImportPanelProps) {
+  const [format, setFormat] = useState<TraceFormat | 'auto'>('auto');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const imported = await importTraceFile(file, format === 'auto' ? null : format);
+      if (imported.operations.length === 0) {
+        setError(`No replayable operations found in ${file.name}`);
+      } else {
+        onLoad(imported);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <Card className="p-6 rounded-2xl shadow-lg border-0">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg flex items-center gap-2">
+          <FileText className="w-5 h-5" />
+          Trace Replay
+        </h3>
+        <div className="flex items-center gap-2">
+          <Select value={format} onValueChange={(value) => setFormat(value as TraceFormat | 'auto')} disabled={disabled || loading}>
+            <SelectTrigger className="w-[220px] rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Detect format</SelectItem>
+              {TRACE_FORMATS.map(type => (
+                <SelectItem key={type} value={type}>{TRACE_FORMAT_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".txt,.log,.strace,.csv,.jsonl,.ndjson"
+            className="hidden"
+            onChange={(e) => loadFile(e.target.files?.[0])}
+          />
+          <Button
+            variant="outline"
+            className="rounded-xl"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={disabled || loading}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {loading ? 'Reading...' : 'Load Trace'}
+          </Button>
+          {trace && (
+            <Button variant="ghost" className="rounded-xl" onClick={onClear} disabled={disabled || loading}>
+              <X className="w-4 h-4 mr-2" />
+              Use Generated Workload
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {trace ? (
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+          <span className="font-mono">{trace.name}</span>
+          <Badge variant="outline">{TRACE_FORMAT_LABELS[trace.format]}</Badge>
+          <span>{trace.operations.length.toLocaleString()} operations</span>
+          <span>{trace.records.length.toLocaleString()} files</span>
+          {trace.skippedLines > 0 && <span>{trace.skippedLines.toLocaleString()} lines skipped</span>}
+          {trace.truncated && <Badge variant="secondary">Truncated at {trace.operations.length.toLocaleString()} operations</Badge>}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Replay strace output, a timestamp/op/path/size CSV or JSONL log, or an SNIA block trace instead of the generated workload.
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </Card>
+  );
+}
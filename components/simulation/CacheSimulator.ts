@@ -1,9 +1,31 @@
+import { ReplacementPolicy, ReplacementPolicyType, createReplacementPolicy } from './ReplacementPolicies';
+import { RandomSource, SeededRandom, DEFAULT_SEED, RANDOM_STREAMS } from './Random';
+
 // Cache Level Implementation
 export interface CacheEntry {
   key: string;
   value: any;
   timestamp: number;
   accessCount: number;
+  dirty: boolean;
+}
+
+// Maps a key to the simulated byte address used for set indexing
+export type AddressResolver = (key: string) => number;
+
+// Every entry is a whole file, not a fixed-size line, so there is no line size:
+// an entry's set is its address modulo the set count
+export interface SetAssociativity {
+  ways: number; // entries per set; sets = capacity / ways
+}
+
+export function keyToAddress(key: string): number {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = ((hash << 5) - hash) + key.charCodeAt(i);
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return hash >>> 0;
 }
 
 export class CacheLevel {
@@ -12,19 +34,64 @@ export class CacheLevel {
   private hits: number = 0;
   private misses: number = 0;
   private evictions: number = 0;
+  private dirtyEvictions: number = 0;
+  private policyType: ReplacementPolicyType;
+  // One policy and occupancy count per set; fully associative is a single set
+  private setPolicies: ReplacementPolicy[];
+  private setSizes: number[];
+  private ways: number;
+  private addressOf: AddressResolver;
+  // 3C classification: keys ever referenced, plus a fully associative LRU shadow of the same size
+  // that sees the same fills and removals as this level
+  private seenKeys: Set<string> = new Set();
+  private shadowLRU: Map<string, true> = new Map();
+  private removedKeys: Set<string> = new Set(); // taken out by the hierarchy and not filled since
+  private compulsoryMisses: number = 0;
+  private capacityMisses: number = 0;
+  private conflictMisses: number = 0;
+  private coherenceMisses: number = 0;
 
-  constructor(capacity: number) {
+  constructor(
+    capacity: number,
+    policy: ReplacementPolicyType = 'LRU',
+    associativity?: SetAssociativity,
+    addressOf: AddressResolver = keyToAddress,
+    random: RandomSource = new SeededRandom().source()
+  ) {
     this.capacity = capacity;
+    this.policyType = policy;
+    this.ways = associativity ? associativity.ways : capacity;
+    this.addressOf = addressOf;
+
+    const setCount = Math.max(1, Math.floor(capacity / this.ways));
+    this.setPolicies = Array.from({ length: setCount }, () => createReplacementPolicy(policy, this.ways, random));
+    this.setSizes = new Array(setCount).fill(0);
+  }
+
+  private setIndex(key: string): number {
+    if (this.setPolicies.length === 1) {
+      return 0;
+    }
+    return this.addressOf(key) % this.setPolicies.length;
   }
 
   get(key: string): { hit: boolean; value: any; latency: number } {
     const startTime = performance.now();
+    const hit = this.cache.has(key);
+
+    // Misses reach the shadow only through the fill that follows, as they do this level
+    if (hit) {
+      this.touchShadow(key);
+    } else {
+      this.classifyMiss(key);
+    }
     
-    if (this.cache.has(key)) {
+    if (hit) {
       this.hits++;
       const entry = this.cache.get(key)!;
       entry.accessCount++;
       entry.timestamp = Date.now();
+      this.setPolicies[this.setIndex(key)].onAccess(key);
       
       const endTime = performance.now();
       return {
@@ -43,33 +110,112 @@ export class CacheLevel {
     }
   }
 
-  put(key: string, value: any): void {
+  // Compulsory: never referenced here before; coherence: removed by an invalidation,
+  // back-invalidation or exclusive move; capacity: a fully associative LRU of the same
+  // size would miss too; conflict: everything else
+  private classifyMiss(key: string): void {
+    if (!this.seenKeys.has(key)) {
+      this.compulsoryMisses++;
+      this.seenKeys.add(key);
+    } else if (this.removedKeys.has(key)) {
+      this.coherenceMisses++;
+    } else if (!this.shadowLRU.has(key)) {
+      this.capacityMisses++;
+    } else {
+      this.conflictMisses++;
+    }
+  }
+
+  private touchShadow(key: string): void {
+    this.seenKeys.add(key);
+    this.removedKeys.delete(key);
+    this.shadowLRU.delete(key);
+    this.shadowLRU.set(key, true);
+    if (this.shadowLRU.size > this.capacity) {
+      this.shadowLRU.delete(this.shadowLRU.keys().next().value!);
+    }
+  }
+
+  // Returns the evicted entry, if any, so the caller can write back dirty victims
+  put(key: string, value: any, dirty: boolean = false): CacheEntry | null {
+    const existing = this.cache.get(key);
+    this.touchShadow(key);
     const entry: CacheEntry = {
       key,
       value,
       timestamp: Date.now(),
-      accessCount: 1
+      accessCount: 1,
+      dirty: dirty || (existing ? existing.dirty : false)
     };
 
-    if (this.cache.size >= this.capacity && !this.cache.has(key)) {
-      // LRU eviction
-      let oldestKey = '';
-      let oldestTime = Date.now();
-      
-      for (const [k, v] of this.cache.entries()) {
-        if (v.timestamp < oldestTime) {
-          oldestTime = v.timestamp;
-          oldestKey = k;
-        }
-      }
+    const set = this.setIndex(key);
+    const policy = this.setPolicies[set];
+
+    if (existing) {
+      this.cache.set(key, entry);
+      policy.onAccess(key);
+      return null;
+    }
+
+    let evicted: CacheEntry | null = null;
+    if (this.setSizes[set] >= this.ways) {
+      const victim = policy.selectVictim(key);
       
-      if (oldestKey) {
-        this.cache.delete(oldestKey);
+      if (victim !== null) {
+        evicted = this.cache.get(victim) ?? null;
+        this.cache.delete(victim);
+        this.setSizes[set]--;
         this.evictions++;
+        if (evicted && evicted.dirty) {
+          this.dirtyEvictions++;
+        }
       }
     }
 
     this.cache.set(key, entry);
+    this.setSizes[set]++;
+    policy.onInsert(key);
+    return evicted;
+  }
+
+  contains(key: string): boolean {
+    return this.cache.has(key);
+  }
+
+  // Drop a key without counting an eviction (invalidation or a move to another level)
+  remove(key: string): CacheEntry | null {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return null;
+    }
+    const set = this.setIndex(key);
+    this.cache.delete(key);
+    this.setSizes[set]--;
+    this.setPolicies[set].onRemove(key);
+    // The shadow drops it too, so the next miss isn't mistaken for a conflict
+    this.shadowLRU.delete(key);
+    this.removedKeys.add(key);
+    return entry;
+  }
+
+  // Clears every dirty bit and returns the keys that were dirty
+  flush(): string[] {
+    const dirtyKeys: string[] = [];
+    for (const entry of this.cache.values()) {
+      if (entry.dirty) {
+        entry.dirty = false;
+        dirtyKeys.push(entry.key);
+      }
+    }
+    return dirtyKeys;
+  }
+
+  private countDirty(): number {
+    let count = 0;
+    for (const entry of this.cache.values()) {
+      if (entry.dirty) count++;
+    }
+    return count;
   }
 
   getStats() {
@@ -81,130 +227,648 @@ export class CacheLevel {
       missRate: total > 0 ? (this.misses / total) * 100 : 0,
       utilization: (this.cache.size / this.capacity) * 100,
       evictions: this.evictions,
+      dirtyEvictions: this.dirtyEvictions,
+      dirtyLines: this.countDirty(),
       size: this.cache.size,
-      capacity: this.capacity
+      capacity: this.capacity,
+      sets: this.setPolicies.length,
+      ways: this.ways,
+      missBreakdown: {
+        compulsory: this.compulsoryMisses,
+        capacity: this.capacityMisses,
+        conflict: this.conflictMisses,
+        coherence: this.coherenceMisses
+      },
+      policy: this.policyType,
+      policyStats: this.getPolicyStats()
     };
   }
 
+  // Per-set policy metadata summed across sets
+  private getPolicyStats(): Record<string, number> {
+    const totals: Record<string, number> = {};
+    for (const policy of this.setPolicies) {
+      for (const [name, value] of Object.entries(policy.getStats())) {
+        totals[name] = (totals[name] ?? 0) + value;
+      }
+    }
+    return totals;
+  }
+
   reset() {
     this.cache.clear();
+    for (const policy of this.setPolicies) {
+      policy.reset();
+    }
+    this.setSizes.fill(0);
+    this.seenKeys.clear();
+    this.shadowLRU.clear();
+    this.removedKeys.clear();
+    this.compulsoryMisses = 0;
+    this.capacityMisses = 0;
+    this.conflictMisses = 0;
+    this.coherenceMisses = 0;
     this.hits = 0;
     this.misses = 0;
     this.evictions = 0;
+    this.dirtyEvictions = 0;
+  }
+}
+
+export interface LatencyRange {
+  min: number; // cycles
+  max: number; // cycles
+}
+
+export interface CacheLevelConfig {
+  name: string;
+  capacity: number;
+  latency: LatencyRange;
+  policy: ReplacementPolicyType;
+  associativity?: SetAssociativity; // omitted means fully associative
+}
+
+export type WritePolicy = 'write-through' | 'write-back';
+
+// inclusive: every key in a level is also in all slower levels (evictions back-invalidate)
+// exclusive: a key lives in exactly one level; victims are swapped down a level
+// nine: non-inclusive non-exclusive, fills go everywhere but nothing is enforced
+export type InclusionPolicy = 'inclusive' | 'exclusive' | 'nine';
+
+export interface CacheHierarchyConfig {
+  levels: CacheLevelConfig[]; // fastest first
+  backingStore: {
+    name: string;
+    latency: LatencyRange;
+  };
+  writePolicy: WritePolicy;
+  writeAllocate: boolean; // whether a write miss brings the key into the cache
+  inclusionPolicy: InclusionPolicy;
+}
+
+export const DEFAULT_CACHE_HIERARCHY: CacheHierarchyConfig = {
+  levels: [
+    { name: 'L1', capacity: 32, latency: { min: 1, max: 2 }, policy: 'LRU' },      // Small, fast L1
+    { name: 'L2', capacity: 256, latency: { min: 10, max: 20 }, policy: 'LRU' },   // Medium L2
+    { name: 'L3', capacity: 2048, latency: { min: 40, max: 75 }, policy: 'LRU' }   // Large L3
+  ],
+  backingStore: { name: 'Memory', latency: { min: 200, max: 300 } },
+  writePolicy: 'write-through',
+  writeAllocate: true,
+  inclusionPolicy: 'nine'
+};
+
+export const CACHE_HIERARCHY_PRESETS: Record<string, CacheHierarchyConfig> = {
+  'Page Cache Only': {
+    levels: [
+      { name: 'Page Cache', capacity: 4096, latency: { min: 200, max: 300 }, policy: 'CLOCK' }
+    ],
+    backingStore: { name: 'Disk', latency: { min: 50000, max: 100000 } },
+    writePolicy: 'write-back',
+    writeAllocate: true,
+    inclusionPolicy: 'nine'
+  },
+  'L1/L2/L3': DEFAULT_CACHE_HIERARCHY,
+  'L1/L2/LLC + Disk Tier': {
+    levels: [
+      { name: 'L1', capacity: 32, latency: { min: 1, max: 2 }, policy: 'LRU' },
+      { name: 'L2', capacity: 256, latency: { min: 10, max: 20 }, policy: 'LRU' },
+      { name: 'LLC', capacity: 2048, latency: { min: 40, max: 75 }, policy: 'LRU' },
+      { name: 'Page Cache', capacity: 8192, latency: { min: 200, max: 300 }, policy: 'CLOCK' }
+    ],
+    backingStore: { name: 'Disk', latency: { min: 50000, max: 100000 } },
+    writePolicy: 'write-back',
+    writeAllocate: true,
+    inclusionPolicy: 'nine'
+  }
+};
+
+export function validateCacheHierarchy(config: CacheHierarchyConfig): void {
+  if (config.levels.length === 0) {
+    throw new Error('Cache hierarchy needs at least one level');
+  }
+
+  for (const level of config.levels) {
+    if (!Number.isInteger(level.capacity) || level.capacity < 1) {
+      throw new Error(`Invalid capacity for ${level.name}: ${level.capacity}`);
+    }
+    if (level.latency.min < 0 || level.latency.max < level.latency.min) {
+      throw new Error(`Invalid latency range for ${level.name}: ${level.latency.min}-${level.latency.max}`);
+    }
+    if (level.associativity) {
+      const { ways } = level.associativity;
+      if (!Number.isInteger(ways) || ways < 1 || level.capacity % ways !== 0) {
+        throw new Error(`Invalid associativity for ${level.name}: ${ways} ways does not divide ${level.capacity}`);
+      }
+    }
   }
 }
 
 // Multi-level Cache System
 export class MultiLevelCache {
-  private l1Cache: CacheLevel;
-  private l2Cache: CacheLevel;
-  private l3Cache: CacheLevel;
+  private config: CacheHierarchyConfig;
+  private levels: CacheLevel[] = [];
   private memoryAccesses: number = 0;
+  private writes: number = 0;
+  private writeHits: number = 0;
+  private writeBacks: number = 0; // dirty data written to the backing store
+  private backingStoreWrites: number = 0;
+  private backInvalidations: number = 0;
+  private invalidations: number = 0; // keys dropped because the file they describe changed or went away
+  private addressOf: AddressResolver = keyToAddress;
+  // Drives latency jitter and Random eviction; restarted on reset so every run replays the same draws
+  private seed: number = DEFAULT_SEED;
+  private random: SeededRandom = new SeededRandom(DEFAULT_SEED, RANDOM_STREAMS.cache);
+
+  constructor(config: CacheHierarchyConfig = DEFAULT_CACHE_HIERARCHY, seed: number = DEFAULT_SEED) {
+    this.config = config;
+    this.setSeed(seed);
+    this.configure(config);
+  }
 
-  constructor() {
-    this.l1Cache = new CacheLevel(32);   // Small, fast L1
-    this.l2Cache = new CacheLevel(256);  // Medium L2
-    this.l3Cache = new CacheLevel(2048); // Large L3
+  setSeed(seed: number): void {
+    this.seed = seed;
+    this.random = new SeededRandom(seed, RANDOM_STREAMS.cache);
+  }
+
+  // Rebuilds every level, so all cached contents and counters are dropped
+  configure(config: CacheHierarchyConfig): void {
+    validateCacheHierarchy(config);
+    this.config = config;
+    this.levels = config.levels.map(level =>
+      new CacheLevel(level.capacity, level.policy, level.associativity, this.addressOf, () => this.random.next())
+    );
+    this.resetCounters();
+  }
+
+  // Set-associative levels index by this address; changing it rebuilds the levels
+  setAddressResolver(addressOf: AddressResolver): void {
+    this.addressOf = addressOf;
+    this.configure(this.config);
+  }
+
+  getConfig(): CacheHierarchyConfig {
+    return this.config;
   }
 
   get(key: string): { value: any; hit: boolean; level: string; totalLatency: number } {
     this.memoryAccesses++;
     let totalLatency = 0;
 
-    // Try L1 Cache (1-2 cycles)
-    const l1Result = this.l1Cache.get(key);
-    totalLatency += l1Result.latency + this.simulateLatency(1, 2);
-    
-    if (l1Result.hit) {
-      return {
-        value: l1Result.value,
-        hit: true,
-        level: 'L1',
-        totalLatency
-      };
-    }
+    // Probe levels from fastest to slowest, paying each level's lookup cost
+    for (let i = 0; i < this.levels.length; i++) {
+      const levelConfig = this.config.levels[i];
+      const result = this.levels[i].get(key);
+      totalLatency += result.latency + this.simulateLatency(levelConfig.latency.min, levelConfig.latency.max);
 
-    // Try L2 Cache (10-20 cycles)
-    const l2Result = this.l2Cache.get(key);
-    totalLatency += l2Result.latency + this.simulateLatency(10, 20);
-    
-    if (l2Result.hit) {
-      // Promote to L1
-      this.l1Cache.put(key, l2Result.value);
-      return {
-        value: l2Result.value,
-        hit: true,
-        level: 'L2',
-        totalLatency
-      };
-    }
-
-    // Try L3 Cache (40-75 cycles)
-    const l3Result = this.l3Cache.get(key);
-    totalLatency += l3Result.latency + this.simulateLatency(40, 75);
-    
-    if (l3Result.hit) {
-      // Promote to L2 and L1
-      this.l2Cache.put(key, l3Result.value);
-      this.l1Cache.put(key, l3Result.value);
-      return {
-        value: l3Result.value,
-        hit: true,
-        level: 'L3',
-        totalLatency
-      };
+      if (result.hit) {
+        totalLatency += this.promote(i, key, result.value, false);
+        return {
+          value: result.value,
+          hit: true,
+          level: levelConfig.name,
+          totalLatency
+        };
+      }
     }
 
-    // Cache miss - simulate memory access (200-300 cycles)
-    totalLatency += this.simulateLatency(200, 300);
+    // Cache miss - simulate backing store access
+    const backingStore = this.config.backingStore;
+    totalLatency += this.simulateLatency(backingStore.latency.min, backingStore.latency.max);
     
     return {
       value: null,
       hit: false,
-      level: 'Memory',
+      level: backingStore.name,
       totalLatency
     };
   }
 
-  put(key: string, value: any): void {
-    // Store in all levels (write-through policy)
-    this.l1Cache.put(key, value);
-    this.l2Cache.put(key, value);
-    this.l3Cache.put(key, value);
+  // Fill after a miss; returns the latency spent moving or writing back victims
+  put(key: string, value: any): number {
+    return this.allocate(key, value, false);
+  }
+
+  write(key: string, value: any): { hit: boolean; level: string; totalLatency: number; reachedBackingStore: boolean } {
+    this.memoryAccesses++;
+    this.writes++;
+    const isWriteBack = this.config.writePolicy === 'write-back';
+    let totalLatency = 0;
+    let hitIndex = -1;
+
+    for (let i = 0; i < this.levels.length; i++) {
+      const levelConfig = this.config.levels[i];
+      totalLatency += this.simulateLatency(levelConfig.latency.min, levelConfig.latency.max);
+      if (this.levels[i].contains(key)) {
+        hitIndex = i;
+        break;
+      }
+    }
+
+    if (hitIndex >= 0) {
+      this.writeHits++;
+      totalLatency += this.promote(hitIndex, key, value, isWriteBack);
+      // Slower levels holding a stale copy are refreshed by the write-through
+      if (!isWriteBack) {
+        for (let i = hitIndex + 1; i < this.levels.length; i++) {
+          if (this.levels[i].contains(key)) {
+            this.levels[i].put(key, value);
+          }
+        }
+      }
+    } else if (this.config.writeAllocate) {
+      totalLatency += this.allocate(key, value, isWriteBack);
+    }
+
+    // Write-through always reaches the backing store; write-back only when the write bypassed the cache
+    const backingStore = this.config.backingStore;
+    const reachedBackingStore = !isWriteBack || (hitIndex < 0 && !this.config.writeAllocate);
+    if (reachedBackingStore) {
+      this.backingStoreWrites++;
+      totalLatency += this.simulateLatency(backingStore.latency.min, backingStore.latency.max);
+    }
+
+    return {
+      hit: hitIndex >= 0,
+      level: hitIndex >= 0 ? this.config.levels[hitIndex].name : backingStore.name,
+      totalLatency,
+      reachedBackingStore
+    };
+  }
+
+  // Drop a key from every level, e.g. after its file was deleted; dirty data is discarded, not written back
+  // The reported level is the fastest one that held the key, or the backing store when none did
+  invalidate(key: string): { found: boolean; level: string; totalLatency: number } {
+    let level: string | null = null;
+    let totalLatency = 0;
+    for (let i = 0; i < this.levels.length; i++) {
+      const levelConfig = this.config.levels[i];
+      totalLatency += this.simulateLatency(levelConfig.latency.min, levelConfig.latency.max);
+      if (this.levels[i].remove(key)) {
+        level = level ?? levelConfig.name;
+      }
+    }
+    if (level !== null) {
+      this.invalidations++;
+    }
+    return { found: level !== null, level: level ?? this.config.backingStore.name, totalLatency };
+  }
+
+  // Write every dirty line back to the backing store
+  flush(): { writeBacks: number; latency: number } {
+    const dirtyKeys: Set<string> = new Set();
+    for (const level of this.levels) {
+      for (const key of level.flush()) {
+        dirtyKeys.add(key);
+      }
+    }
+
+    const backingStore = this.config.backingStore;
+    let latency = 0;
+    for (let i = 0; i < dirtyKeys.size; i++) {
+      latency += this.simulateLatency(backingStore.latency.min, backingStore.latency.max);
+    }
+    this.writeBacks += dirtyKeys.size;
+    this.backingStoreWrites += dirtyKeys.size;
+
+    return { writeBacks: dirtyKeys.size, latency };
+  }
+
+  // Bring a missing key into the hierarchy: only the fastest level when exclusive, every level otherwise
+  private allocate(key: string, value: any, dirty: boolean): number {
+    if (this.config.inclusionPolicy === 'exclusive') {
+      return this.fill(0, key, value, dirty);
+    }
+
+    let latency = 0;
+    for (let i = 0; i < this.levels.length; i++) {
+      latency += this.fill(i, key, value, dirty);
+    }
+    return latency;
+  }
+
+  // Move a key that hit at `index` into the faster levels
+  private promote(index: number, key: string, value: any, dirty: boolean): number {
+    if (this.config.inclusionPolicy === 'exclusive') {
+      if (index === 0) {
+        return this.fill(0, key, value, dirty);
+      }
+      // Leave the slower level so the key stays in exactly one place
+      const entry = this.levels[index].remove(key);
+      return this.fill(0, key, value, dirty || (entry ? entry.dirty : false));
+    }
+
+    let latency = 0;
+    for (let i = 0; i <= index; i++) {
+      latency += this.fill(i, key, value, dirty);
+    }
+    return latency;
+  }
+
+  private fill(index: number, key: string, value: any, dirty: boolean): number {
+    const evicted = this.levels[index].put(key, value, dirty);
+    return evicted ? this.handleVictim(index, evicted) : 0;
+  }
+
+  private handleVictim(index: number, victim: CacheEntry): number {
+    let latency = 0;
+    let dirty = victim.dirty;
+    let value = victim.value;
+
+    if (this.config.inclusionPolicy === 'inclusive') {
+      // Faster levels may not keep what this level dropped
+      for (let i = 0; i < index; i++) {
+        const copy = this.levels[i].remove(victim.key);
+        if (copy) {
+          this.backInvalidations++;
+          if (copy.dirty) {
+            dirty = true;
+            value = copy.value;
+          }
+        }
+      }
+    }
+
+    // Exclusive victims always move down a level; otherwise only dirty data has to
+    const hasNextLevel = index + 1 < this.levels.length;
+    if (hasNextLevel && (dirty || this.config.inclusionPolicy === 'exclusive')) {
+      const next = this.config.levels[index + 1];
+      latency += this.simulateLatency(next.latency.min, next.latency.max);
+      return latency + this.fill(index + 1, victim.key, value, dirty);
+    }
+
+    if (dirty) {
+      const backingStore = this.config.backingStore;
+      this.writeBacks++;
+      this.backingStoreWrites++;
+      latency += this.simulateLatency(backingStore.latency.min, backingStore.latency.max);
+    }
+    return latency;
   }
 
   private simulateLatency(minCycles: number, maxCycles: number): number {
     // Simulate CPU cycles as microseconds
-    const cycles = Math.random() * (maxCycles - minCycles) + minCycles;
+    const cycles = this.random.next() * (maxCycles - minCycles) + minCycles;
     return cycles * 0.001; // Convert to milliseconds (assuming 1GHz CPU)
   }
 
   getOverallStats() {
-    const l1Stats = this.l1Cache.getStats();
-    const l2Stats = this.l2Cache.getStats();
-    const l3Stats = this.l3Cache.getStats();
+    const levelStats = this.levels.map((level, i) => ({
+      name: this.config.levels[i].name,
+      latency: this.config.levels[i].latency,
+      ...level.getStats()
+    }));
 
-    const totalHits = l1Stats.hits + l2Stats.hits + l3Stats.hits;
-    const totalMisses = l3Stats.misses; // Only L3 misses count as true misses
+    const totalHits = levelStats.reduce((sum, stats) => sum + stats.hits, 0);
+    const totalMisses = levelStats[levelStats.length - 1].misses; // Only last-level misses count as true misses
     const totalAccesses = totalHits + totalMisses;
 
     return {
-      l1: l1Stats,
-      l2: l2Stats,
-      l3: l3Stats,
+      levels: levelStats,
       overall: {
         hitRate: totalAccesses > 0 ? (totalHits / totalAccesses) * 100 : 0,
         missRate: totalAccesses > 0 ? (totalMisses / totalAccesses) * 100 : 0,
         memoryAccesses: this.memoryAccesses,
-        totalAccesses
+        totalAccesses,
+        writes: this.writes,
+        writeHits: this.writeHits,
+        writeMisses: this.writes - this.writeHits,
+        writeBacks: this.writeBacks,
+        backingStoreWrites: this.backingStoreWrites,
+        dirtyLines: levelStats.reduce((sum, stats) => sum + stats.dirtyLines, 0),
+        inclusionPolicy: this.config.inclusionPolicy,
+        effectiveCapacity: this.getEffectiveCapacity(),
+        backInvalidations: this.backInvalidations,
+        invalidations: this.invalidations,
+        missBreakdown: levelStats.reduce(
+          (totals, stats) => ({
+            compulsory: totals.compulsory + stats.missBreakdown.compulsory,
+            capacity: totals.capacity + stats.missBreakdown.capacity,
+            conflict: totals.conflict + stats.missBreakdown.conflict,
+            coherence: totals.coherence + stats.missBreakdown.coherence
+          }),
+          { compulsory: 0, capacity: 0, conflict: 0, coherence: 0 }
+        )
       }
     };
   }
 
+  // Distinct keys the hierarchy can hold at once: exclusive levels add up,
+  // otherwise fills write every level so the largest one bounds it
+  getEffectiveCapacity(): number {
+    const capacities = this.config.levels.map(level => level.capacity);
+    if (this.config.inclusionPolicy === 'exclusive') {
+      return capacities.reduce((sum, capacity) => sum + capacity, 0);
+    }
+    return Math.max(...capacities);
+  }
+
   reset() {
-    this.l1Cache.reset();
-    this.l2Cache.reset();
-    this.l3Cache.reset();
+    for (const level of this.levels) {
+      level.reset();
+    }
+    this.random = new SeededRandom(this.seed, RANDOM_STREAMS.cache);
+    this.resetCounters();
+  }
+
+  private resetCounters(): void {
     this.memoryAccesses = 0;
+    this.writes = 0;
+    this.writeHits = 0;
+    this.writeBacks = 0;
+    this.backingStoreWrites = 0;
+    this.backInvalidations = 0;
+    this.invalidations = 0;
   }
-}
\ No newline at end of file
+}
+
+// A request for a key, or a forced removal (delete, rename, stale listing) that OPT must honor too
+export type OptimalTraceEntry = string | { invalidate: string };
+
+// Belady's OPT/MIN: offline cache that evicts the key whose next use is furthest away
+export class BeladyOptimalCache {
+  private capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  simulate(trace: OptimalTraceEntry[]): { hits: number; misses: number; hitRate: number } {
+    // Precompute, for each position, where the same key is requested next; an invalidation
+    // in between means the resident copy is never reused
+    const nextUse: number[] = new Array(trace.length);
+    const lastSeen: Map<string, number> = new Map();
+    for (let i = trace.length - 1; i >= 0; i--) {
+      const entry = trace[i];
+      if (typeof entry !== 'string') {
+        lastSeen.set(entry.invalidate, Infinity);
+        continue;
+      }
+      nextUse[i] = lastSeen.get(entry) ?? Infinity;
+      lastSeen.set(entry, i);
+    }
+
+    const resident: Map<string, number> = new Map(); // key -> next use
+    const heap: Array<[number, string]> = []; // max-heap on next use, stale entries skipped lazily
+    let hits = 0;
+    let misses = 0;
+
+    for (let i = 0; i < trace.length; i++) {
+      const entry = trace[i];
+      if (typeof entry !== 'string') {
+        resident.delete(entry.invalidate); // its heap entry goes stale and is skipped
+        continue;
+      }
+      const key = entry;
+
+      if (resident.has(key)) {
+        hits++;
+      } else {
+        misses++;
+        if (resident.size >= this.capacity) {
+          while (heap.length > 0) {
+            const [use, candidate] = this.heapPop(heap);
+            if (resident.get(candidate) === use) {
+              resident.delete(candidate);
+              break;
+            }
+          }
+        }
+      }
+
+      resident.set(key, nextUse[i]);
+      this.heapPush(heap, [nextUse[i], key]);
+    }
+
+    const total = hits + misses;
+    return {
+      hits,
+      misses,
+      hitRate: total > 0 ? (hits / total) * 100 : 0
+    };
+  }
+
+  private heapPush(heap: Array<[number, string]>, item: [number, string]): void {
+    heap.push(item);
+    let index = heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (heap[parent][0] >= heap[index][0]) break;
+      [heap[parent], heap[index]] = [heap[index], heap[parent]];
+      index = parent;
+    }
+  }
+
+  private heapPop(heap: Array<[number, string]>): [number, string] {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let largest = index;
+        if (left < heap.length && heap[left][0] > heap[largest][0]) largest = left;
+        if (right < heap.length && heap[right][0] > heap[largest][0]) largest = right;
+        if (largest === index) break;
+        [heap[largest], heap[index]] = [heap[index], heap[largest]];
+        index = largest;
+      }
+    }
+    return top;
+  }
+}
+
+export interface ReuseDistanceProfile {
+  totalAccesses: number;
+  uniqueKeys: number;
+  coldMisses: number;
+  histogram: Array<{ bucket: string; minDistance: number; count: number }>; // log2-sized distance buckets
+  missRatioCurve: Array<{ size: number; missRatio: number }>; // LRU miss ratio (%) per cache size
+}
+
+// Mattson stack-distance analysis: one pass over a trace yields the LRU miss ratio for every cache size
+export class ReuseDistanceAnalyzer {
+  analyze(trace: string[], sizes?: number[]): ReuseDistanceProfile {
+    // Fenwick tree over trace positions; a set bit marks the latest access of some key
+    const tree: number[] = new Array(trace.length + 1).fill(0);
+    const update = (position: number, delta: number) => {
+      for (let i = position + 1; i <= trace.length; i += i & -i) tree[i] += delta;
+    };
+    const prefixSum = (position: number) => {
+      let sum = 0;
+      for (let i = position + 1; i > 0; i -= i & -i) sum += tree[i];
+      return sum;
+    };
+
+    const lastAccess: Map<string, number> = new Map();
+    const distanceCounts: Map<number, number> = new Map();
+    let coldMisses = 0;
+
+    for (let i = 0; i < trace.length; i++) {
+      const previous = lastAccess.get(trace[i]);
+      if (previous === undefined) {
+        coldMisses++;
+      } else {
+        // Distinct keys touched since the previous access to this one
+        const distance = prefixSum(i - 1) - prefixSum(previous);
+        distanceCounts.set(distance, (distanceCounts.get(distance) ?? 0) + 1);
+        update(previous, -1);
+      }
+      update(i, 1);
+      lastAccess.set(trace[i], i);
+    }
+
+    const uniqueKeys = lastAccess.size;
+    const curveSizes = sizes ?? this.defaultSizes(uniqueKeys);
+
+    // An access hits in an LRU cache of size C exactly when its reuse distance is below C
+    const missRatioCurve = curveSizes.map(size => {
+      let misses = coldMisses;
+      distanceCounts.forEach((count, distance) => {
+        if (distance >= size) misses += count;
+      });
+      return {
+        size,
+        missRatio: trace.length > 0 ? (misses / trace.length) * 100 : 0
+      };
+    });
+
+    return {
+      totalAccesses: trace.length,
+      uniqueKeys,
+      coldMisses,
+      histogram: this.bucketize(distanceCounts),
+      missRatioCurve
+    };
+  }
+
+  // Powers of two up to the working set size, plus the working set size itself
+  private defaultSizes(uniqueKeys: number): number[] {
+    const sizes: number[] = [];
+    for (let size = 1; size < uniqueKeys; size *= 2) {
+      sizes.push(size);
+    }
+    sizes.push(Math.max(1, uniqueKeys));
+    return sizes;
+  }
+
+  private bucketize(distanceCounts: Map<number, number>): ReuseDistanceProfile['histogram'] {
+    const buckets: ReuseDistanceProfile['histogram'] = [];
+    distanceCounts.forEach((count, distance) => {
+      const index = distance === 0 ? 0 : Math.floor(Math.log2(distance)) + 1;
+      while (buckets.length <= index) {
+        const minDistance = buckets.length === 0 ? 0 : 2 ** (buckets.length - 1);
+        const maxDistance = buckets.length === 0 ? 0 : 2 ** buckets.length - 1;
+        buckets.push({
+          bucket: minDistance === maxDistance ? `${minDistance}` : `${minDistance}-${maxDistance}`,
+          minDistance,
+          count: 0
+        });
+      }
+      buckets[index].count += count;
+    });
+    return buckets;
+  }
+}
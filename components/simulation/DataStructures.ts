@@ -1,3 +1,57 @@
+import { HashFunction, HashFunctionType, createHashFunction, JavaStringHash, FNV1aHash } from './HashFunctions';
+import { SeededRandom, DEFAULT_SEED, RANDOM_STREAMS } from './Random';
+
+export interface FuzzyMatch {
+  key: string;
+  value: any;
+  distance: number;
+}
+
+// Levenshtein distance between two keys, abandoned as soon as every cell of a row exceeds
+// maxDistance. `cells` counts DP cells filled so brute-force scans and trie walks compare fairly.
+function boundedEditDistance(a: string, b: string, maxDistance: number): { distance: number; cells: number } {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  let cells = 0;
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+      cells++;
+    }
+    if (rowMin > maxDistance) {
+      return { distance: Infinity, cells };
+    }
+    previous = current;
+  }
+
+  return { distance: previous[b.length], cells };
+}
+
+// Closest first, then alphabetical
+function rankFuzzyMatches(matches: FuzzyMatch[]): FuzzyMatch[] {
+  return matches.sort((a, b) => a.distance - b.distance || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+}
+
+// Rough per-object costs on a 64-bit JS engine, for comparing structures rather than exact accounting
+const MEMORY = {
+  object: 16, // header
+  field: 8, // pointer or small number
+  mapBase: 80,
+  mapEntry: 24,
+  stringBase: 16,
+  arrayBase: 16
+};
+
+// Key strings; file paths are ASCII, which engines store at one byte per character.
+// Values are shared file records, so structures only pay for the pointer to them
+function stringBytes(value: string): number {
+  return MEMORY.stringBase + value.length;
+}
+
 // Binary Search Tree Implementation
 export class BSTNode {
   constructor(
@@ -12,6 +66,7 @@ export class BinarySearchTree {
   private root: BSTNode | null = null;
   public accessCount = 0;
   public comparisons = 0;
+  private totalComparisons = 0;
 
   insert(key: string, value: any): void {
     this.root = this.insertNode(this.root, key, value);
@@ -40,6 +95,7 @@ export class BinarySearchTree {
     
     const result = this.searchNode(this.root, key);
     const endTime = performance.now();
+    this.totalComparisons += this.comparisons;
     
     return {
       value: result,
@@ -65,156 +121,4048 @@ export class BinarySearchTree {
     }
   }
 
-  getStats() {
+  update(key: string, value: any): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.comparisons = 0;
+
+    let current = this.root;
+    let previous: any | null = null;
+
+    while (current !== null) {
+      this.comparisons++;
+      if (key === current.key) {
+        previous = current.value;
+        current.value = value;
+        break;
+      }
+      current = key < current.key ? current.left : current.right;
+    }
+
+    const endTime = performance.now();
+    this.totalComparisons += this.comparisons;
+
     return {
-      accessCount: this.accessCount,
-      avgComparisons: this.comparisons / Math.max(this.accessCount, 1)
+      value: previous,
+      found: current !== null,
+      comparisons: this.comparisons,
+      latency: endTime - startTime
     };
   }
-}
 
-// Hash Table Implementation
-export class HashTable {
-  private buckets: Array<Array<{ key: string; value: any }>> = [];
-  private size: number;
-  public accessCount = 0;
-  public collisions = 0;
+  delete(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.comparisons = 0;
 
-  constructor(size: number = 1000) {
-    this.size = size;
-    this.buckets = new Array(size).fill(null).map(() => []);
+    let removed: any | null = null;
+    this.root = this.deleteNode(this.root, key, (value) => {
+      removed = value;
+    });
+    const endTime = performance.now();
+    this.totalComparisons += this.comparisons;
+
+    return {
+      value: removed,
+      found: removed !== null,
+      comparisons: this.comparisons,
+      latency: endTime - startTime
+    };
   }
 
-  private hash(key: string): number {
-    let hash = 0;
-    for (let i = 0; i < key.length; i++) {
-      const char = key.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  private deleteNode(node: BSTNode | null, key: string, onRemove: (value: any) => void): BSTNode | null {
+    if (node === null) {
+      return null;
     }
-    return Math.abs(hash) % this.size;
-  }
 
-  insert(key: string, value: any): void {
-    const index = this.hash(key);
-    const bucket = this.buckets[index];
-    
-    // Check for existing key
-    const existingItem = bucket.find(item => item.key === key);
-    if (existingItem) {
-      existingItem.value = value;
-    } else {
-      if (bucket.length > 0) {
-        this.collisions++;
-      }
-      bucket.push({ key, value });
+    this.comparisons++;
+
+    if (key < node.key) {
+      node.left = this.deleteNode(node.left, key, onRemove);
+      return node;
+    }
+    if (key > node.key) {
+      node.right = this.deleteNode(node.right, key, onRemove);
+      return node;
+    }
+
+    onRemove(node.value);
+
+    if (node.left === null) {
+      return node.right;
+    }
+    if (node.right === null) {
+      return node.left;
+    }
+
+    // Two children: splice out the in-order successor and take its place
+    let successorParent = node;
+    let successor = node.right;
+    while (successor.left !== null) {
+      this.comparisons++;
+      successorParent = successor;
+      successor = successor.left;
     }
+
+    if (successorParent !== node) {
+      successorParent.left = successor.right;
+      successor.right = node.right;
+    }
+    successor.left = node.left;
+    return successor;
   }
 
-  search(key: string): any {
+  range(lo: string, hi: string): any {
     const startTime = performance.now();
     this.accessCount++;
-    
-    const index = this.hash(key);
-    const bucket = this.buckets[index];
-    
-    const item = bucket.find(item => item.key === key);
+    this.comparisons = 0;
+
+    const results: Array<{ key: string; value: any }> = [];
+    this.collectRange(this.root, lo, hi, results);
     const endTime = performance.now();
-    
+    this.totalComparisons += this.comparisons;
+
     return {
-      value: item ? item.value : null,
-      found: !!item,
-      bucketSize: bucket.length,
+      results,
+      count: results.length,
+      comparisons: this.comparisons,
+      latency: endTime - startTime
+    };
+  }
+
+  keysWithPrefix(prefix: string): any {
+    // Every key sharing the prefix sorts between the prefix and prefix + U+FFFF
+    return this.range(prefix, prefix + '\uffff');
+  }
+
+  // Brute force: no ordering helps with edit distance, so every node is compared
+  fuzzySearch(key: string, maxDistance: number): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.comparisons = 0;
+
+    const matches: FuzzyMatch[] = [];
+    let dpCells = 0;
+    const visit = (node: BSTNode | null): void => {
+      if (node === null) return;
+      this.comparisons++;
+      visit(node.left);
+      const { distance, cells } = boundedEditDistance(key, node.key, maxDistance);
+      dpCells += cells;
+      if (distance <= maxDistance) {
+        matches.push({ key: node.key, value: node.value, distance });
+      }
+      visit(node.right);
+    };
+    visit(this.root);
+    const endTime = performance.now();
+    this.totalComparisons += this.comparisons;
+
+    return {
+      results: rankFuzzyMatches(matches),
+      count: matches.length,
+      comparisons: this.comparisons,
+      dpCells,
       latency: endTime - startTime
     };
   }
 
+  private collectRange(node: BSTNode | null, lo: string, hi: string, results: Array<{ key: string; value: any }>): void {
+    if (node === null) {
+      return;
+    }
+
+    this.comparisons++;
+
+    if (lo < node.key) {
+      this.collectRange(node.left, lo, hi, results);
+    }
+    if (lo <= node.key && node.key <= hi) {
+      results.push({ key: node.key, value: node.value });
+    }
+    if (node.key < hi) {
+      this.collectRange(node.right, lo, hi, results);
+    }
+  }
+
   getStats() {
-    const totalItems = this.buckets.reduce((sum, bucket) => sum + bucket.length, 0);
-    const nonEmptyBuckets = this.buckets.filter(bucket => bucket.length > 0).length;
-    
     return {
       accessCount: this.accessCount,
-      collisions: this.collisions,
-      loadFactor: totalItems / this.size,
-      bucketUtilization: nonEmptyBuckets / this.size
+      avgComparisons: this.totalComparisons / Math.max(this.accessCount, 1),
+      height: this.heightOf(this.root),
+      estimatedBytes: this.estimateMemory()
     };
   }
+
+  // One node object (key, value, two children) plus its key string per entry
+  estimateMemory(): number {
+    const visit = (node: BSTNode | null): number =>
+      node === null ? 0 : MEMORY.object + 4 * MEMORY.field + stringBytes(node.key) + visit(node.left) + visit(node.right);
+    return visit(this.root);
+  }
+
+  private heightOf(node: BSTNode | null): number {
+    if (node === null) {
+      return 0;
+    }
+    return 1 + Math.max(this.heightOf(node.left), this.heightOf(node.right));
+  }
 }
 
-// Trie Implementation
-export class TrieNode {
-  children: Map<string, TrieNode> = new Map();
-  isEndOfWord: boolean = false;
-  value: any = null;
+// AVL Tree Implementation
+export class AVLNode {
+  public height = 1;
+
+  constructor(
+    public key: string,
+    public value: any,
+    public left: AVLNode | null = null,
+    public right: AVLNode | null = null
+  ) {}
 }
 
-export class Trie {
-  private root: TrieNode = new TrieNode();
+export class AVLTree {
+  private root: AVLNode | null = null;
   public accessCount = 0;
-  public nodeTraversals = 0;
+  public comparisons = 0;
+  private totalComparisons = 0;
+  public rotations = 0;
 
   insert(key: string, value: any): void {
+    this.root = this.insertNode(this.root, key, value);
+  }
+
+  private insertNode(node: AVLNode | null, key: string, value: any): AVLNode {
+    if (node === null) {
+      return new AVLNode(key, value);
+    }
+
+    if (key < node.key) {
+      node.left = this.insertNode(node.left, key, value);
+    } else if (key > node.key) {
+      node.right = this.insertNode(node.right, key, value);
+    } else {
+      node.value = value; // Update existing key
+      return node;
+    }
+
+    return this.rebalance(node);
+  }
+
+  private height(node: AVLNode | null): number {
+    return node ? node.height : 0;
+  }
+
+  private updateHeight(node: AVLNode): void {
+    node.height = 1 + Math.max(this.height(node.left), this.height(node.right));
+  }
+
+  private balanceFactor(node: AVLNode): number {
+    return this.height(node.left) - this.height(node.right);
+  }
+
+  private rotateRight(node: AVLNode): AVLNode {
+    const pivot = node.left!;
+    node.left = pivot.right;
+    pivot.right = node;
+    this.updateHeight(node);
+    this.updateHeight(pivot);
+    this.rotations++;
+    return pivot;
+  }
+
+  private rotateLeft(node: AVLNode): AVLNode {
+    const pivot = node.right!;
+    node.right = pivot.left;
+    pivot.left = node;
+    this.updateHeight(node);
+    this.updateHeight(pivot);
+    this.rotations++;
+    return pivot;
+  }
+
+  private rebalance(node: AVLNode): AVLNode {
+    this.updateHeight(node);
+    const balance = this.balanceFactor(node);
+
+    if (balance > 1) {
+      // Left-right case needs the child rotated first
+      if (this.balanceFactor(node.left!) < 0) {
+        node.left = this.rotateLeft(node.left!);
+      }
+      return this.rotateRight(node);
+    }
+
+    if (balance < -1) {
+      // Right-left case needs the child rotated first
+      if (this.balanceFactor(node.right!) > 0) {
+        node.right = this.rotateRight(node.right!);
+      }
+      return this.rotateLeft(node);
+    }
+
+    return node;
+  }
+
+  search(key: string): any | null {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.comparisons = 0;
+
     let current = this.root;
-    
-    for (const char of key) {
-      if (!current.children.has(char)) {
-        current.children.set(char, new TrieNode());
+    let result: any | null = null;
+
+    while (current !== null) {
+      this.comparisons++;
+      if (key === current.key) {
+        result = current.value;
+        break;
       }
-      current = current.children.get(char)!;
+      current = key < current.key ? current.left : current.right;
     }
-    
-    current.isEndOfWord = true;
-    current.value = value;
+
+    const endTime = performance.now();
+    this.totalComparisons += this.comparisons;
+
+    return {
+      value: result,
+      found: result !== null,
+      comparisons: this.comparisons,
+      latency: endTime - startTime
+    };
   }
 
-  search(key: string): any {
+  update(key: string, value: any): any {
     const startTime = performance.now();
     this.accessCount++;
-    this.nodeTraversals = 0;
-    
+    this.comparisons = 0;
+
     let current = this.root;
-    
-    for (const char of key) {
-      this.nodeTraversals++;
-      if (!current.children.has(char)) {
-        const endTime = performance.now();
-        return {
-          value: null,
-          found: false,
-          nodeTraversals: this.nodeTraversals,
-          latency: endTime - startTime
-        };
+    let previous: any | null = null;
+
+    while (current !== null) {
+      this.comparisons++;
+      if (key === current.key) {
+        previous = current.value;
+        current.value = value;
+        break;
       }
-      current = current.children.get(char)!;
+      current = key < current.key ? current.left : current.right;
     }
-    
+
     const endTime = performance.now();
+    this.totalComparisons += this.comparisons;
+
     return {
-      value: current.isEndOfWord ? current.value : null,
-      found: current.isEndOfWord,
-      nodeTraversals: this.nodeTraversals,
+      value: previous,
+      found: current !== null,
+      comparisons: this.comparisons,
       latency: endTime - startTime
     };
   }
 
-  getStats() {
+  delete(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.comparisons = 0;
+
+    let removed: any | null = null;
+    this.root = this.deleteNode(this.root, key, (value) => {
+      removed = value;
+    });
+    const endTime = performance.now();
+    this.totalComparisons += this.comparisons;
+
     return {
-      accessCount: this.accessCount,
-      avgNodeTraversals: this.nodeTraversals / Math.max(this.accessCount, 1)
+      value: removed,
+      found: removed !== null,
+      comparisons: this.comparisons,
+      latency: endTime - startTime
     };
   }
 
-  // Helper method to count total nodes
-  countNodes(): number {
-    return this.countNodesRecursive(this.root);
+  private deleteNode(node: AVLNode | null, key: string, onRemove: (value: any) => void): AVLNode | null {
+    if (node === null) {
+      return null;
+    }
+
+    this.comparisons++;
+
+    if (key < node.key) {
+      node.left = this.deleteNode(node.left, key, onRemove);
+      return this.rebalance(node);
+    }
+    if (key > node.key) {
+      node.right = this.deleteNode(node.right, key, onRemove);
+      return this.rebalance(node);
+    }
+
+    onRemove(node.value);
+
+    if (node.left === null) {
+      return node.right;
+    }
+    if (node.right === null) {
+      return node.left;
+    }
+
+    // Two children: take over the in-order successor's entry, then remove it from the right subtree
+    let successor = node.right;
+    while (successor.left !== null) {
+      this.comparisons++;
+      successor = successor.left;
+    }
+    node.key = successor.key;
+    node.value = successor.value;
+    node.right = this.removeMin(node.right);
+    return this.rebalance(node);
   }
 
-  private countNodesRecursive(node: TrieNode): number {
-    let count = 1;
-    for (const child of node.children.values()) {
-      count += this.countNodesRecursive(child);
+  private removeMin(node: AVLNode): AVLNode | null {
+    if (node.left === null) {
+      return node.right;
     }
-    return count;
+    node.left = this.removeMin(node.left);
+    return this.rebalance(node);
   }
-}
\ No newline at end of file
+
+  range(lo: string, hi: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.comparisons = 0;
+
+    const results: Array<{ key: string; value: any }> = [];
+    this.collectRange(this.root, lo, hi, results);
+    const endTime = performance.now();
+    this.totalComparisons += this.comparisons;
+
+    return {
+      results,
+      count: results.length,
+      comparisons: this.comparisons,
+      latency: endTime - startTime
+    };
+  }
+
+  keysWithPrefix(prefix: string): any {
+    return this.range(prefix, prefix + '\uffff');
+  }
+
+  private collectRange(node: AVLNode | null, lo: string, hi: string, results: Array<{ key: string; value: any }>): void {
+    if (node === null) {
+      return;
+    }
+
+    this.comparisons++;
+
+    if (lo < node.key) {
+      this.collectRange(node.left, lo, hi, results);
+    }
+    if (lo <= node.key && node.key <= hi) {
+      results.push({ key: node.key, value: node.value });
+    }
+    if (node.key < hi) {
+      this.collectRange(node.right, lo, hi, results);
+    }
+  }
+
+  getStats() {
+    return {
+      accessCount: this.accessCount,
+      avgComparisons: this.totalComparisons / Math.max(this.accessCount, 1),
+      rotations: this.rotations,
+      height: this.height(this.root),
+      estimatedBytes: this.estimateMemory()
+    };
+  }
+
+  // Like the BST, plus the cached height
+  estimateMemory(): number {
+    const visit = (node: AVLNode | null): number =>
+      node === null ? 0 : MEMORY.object + 5 * MEMORY.field + stringBytes(node.key) + visit(node.left) + visit(node.right);
+    return visit(this.root);
+  }
+}
+
+// Red-Black Tree Implementation
+export class RedBlackNode {
+  public isRed = true;
+  public parent: RedBlackNode | null = null;
+  public left: RedBlackNode | null = null;
+  public right: RedBlackNode | null = null;
+
+  constructor(
+    public key: string,
+    public value: any
+  ) {}
+}
+
+export class RedBlackTree {
+  private root: RedBlackNode | null = null;
+  public accessCount = 0;
+  public comparisons = 0;
+  private totalComparisons = 0;
+  public rotations = 0;
+  public recolorings = 0;
+
+  insert(key: string, value: any): void {
+    let parent: RedBlackNode | null = null;
+    let current = this.root;
+
+    while (current !== null) {
+      parent = current;
+      if (key < current.key) {
+        current = current.left;
+      } else if (key > current.key) {
+        current = current.right;
+      } else {
+        current.value = value; // Update existing key
+        return;
+      }
+    }
+
+    const node = new RedBlackNode(key, value);
+    node.parent = parent;
+
+    if (parent === null) {
+      this.root = node;
+    } else if (key < parent.key) {
+      parent.left = node;
+    } else {
+      parent.right = node;
+    }
+
+    this.fixInsert(node);
+  }
+
+  private isRed(node: RedBlackNode | null): boolean {
+    return node !== null && node.isRed;
+  }
+
+  private fixInsert(node: RedBlackNode): void {
+    let current = node;
+
+    while (current.parent !== null && current.parent.isRed) {
+      const parent: RedBlackNode = current.parent;
+      const grandparent = parent.parent!;
+
+      if (parent === grandparent.left) {
+        const uncle = grandparent.right;
+        if (this.isRed(uncle)) {
+          // Red uncle: push blackness down from the grandparent
+          parent.isRed = false;
+          uncle!.isRed = false;
+          grandparent.isRed = true;
+          this.recolorings += 3;
+          current = grandparent;
+        } else {
+          if (current === parent.right) {
+            current = parent;
+            this.rotateLeft(current);
+          }
+          current.parent!.isRed = false;
+          grandparent.isRed = true;
+          this.recolorings += 2;
+          this.rotateRight(grandparent);
+        }
+      } else {
+        const uncle = grandparent.left;
+        if (this.isRed(uncle)) {
+          parent.isRed = false;
+          uncle!.isRed = false;
+          grandparent.isRed = true;
+          this.recolorings += 3;
+          current = grandparent;
+        } else {
+          if (current === parent.left) {
+            current = parent;
+            this.rotateRight(current);
+          }
+          current.parent!.isRed = false;
+          grandparent.isRed = true;
+          this.recolorings += 2;
+          this.rotateLeft(grandparent);
+        }
+      }
+    }
+
+    if (this.root!.isRed) {
+      this.root!.isRed = false;
+      this.recolorings++;
+    }
+  }
+
+  private replaceChild(parent: RedBlackNode | null, oldChild: RedBlackNode, newChild: RedBlackNode): void {
+    if (parent === null) {
+      this.root = newChild;
+    } else if (parent.left === oldChild) {
+      parent.left = newChild;
+    } else {
+      parent.right = newChild;
+    }
+    newChild.parent = parent;
+  }
+
+  private rotateLeft(node: RedBlackNode): void {
+    const pivot = node.right!;
+    node.right = pivot.left;
+    if (pivot.left !== null) {
+      pivot.left.parent = node;
+    }
+    this.replaceChild(node.parent, node, pivot);
+    pivot.left = node;
+    node.parent = pivot;
+    this.rotations++;
+  }
+
+  private rotateRight(node: RedBlackNode): void {
+    const pivot = node.left!;
+    node.left = pivot.right;
+    if (pivot.right !== null) {
+      pivot.right.parent = node;
+    }
+    this.replaceChild(node.parent, node, pivot);
+    pivot.right = node;
+    node.parent = pivot;
+    this.rotations++;
+  }
+
+  search(key: string): any | null {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.comparisons = 0;
+
+    let current = this.root;
+    let result: any | null = null;
+
+    while (current !== null) {
+      this.comparisons++;
+      if (key === current.key) {
+        result = current.value;
+        break;
+      }
+      current = key < current.key ? current.left : current.right;
+    }
+
+    const endTime = performance.now();
+    this.totalComparisons += this.comparisons;
+
+    return {
+      value: result,
+      found: result !== null,
+      comparisons: this.comparisons,
+      latency: endTime - startTime
+    };
+  }
+
+  update(key: string, value: any): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.comparisons = 0;
+
+    let current = this.root;
+    let previous: any | null = null;
+
+    while (current !== null) {
+      this.comparisons++;
+      if (key === current.key) {
+        previous = current.value;
+        current.value = value;
+        break;
+      }
+      current = key < current.key ? current.left : current.right;
+    }
+
+    const endTime = performance.now();
+    this.totalComparisons += this.comparisons;
+
+    return {
+      value: previous,
+      found: current !== null,
+      comparisons: this.comparisons,
+      latency: endTime - startTime
+    };
+  }
+
+  delete(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.comparisons = 0;
+
+    let current = this.root;
+    while (current !== null) {
+      this.comparisons++;
+      if (key === current.key) {
+        break;
+      }
+      current = key < current.key ? current.left : current.right;
+    }
+
+    const removed = current !== null ? current.value : null;
+    if (current !== null) {
+      this.removeNode(current);
+    }
+    const endTime = performance.now();
+    this.totalComparisons += this.comparisons;
+
+    return {
+      value: removed,
+      found: current !== null,
+      comparisons: this.comparisons,
+      latency: endTime - startTime
+    };
+  }
+
+  private removeNode(node: RedBlackNode): void {
+    // Two children: move the successor's entry up and unlink the successor, which has no left child
+    if (node.left !== null && node.right !== null) {
+      let successor = node.right;
+      while (successor.left !== null) {
+        successor = successor.left;
+      }
+      node.key = successor.key;
+      node.value = successor.value;
+      node = successor;
+    }
+
+    const child = node.left ?? node.right;
+    const parent = node.parent;
+    if (child !== null) {
+      this.replaceChild(parent, node, child);
+    } else if (parent === null) {
+      this.root = null;
+    } else if (parent.left === node) {
+      parent.left = null;
+    } else {
+      parent.right = null;
+    }
+
+    if (node.isRed) {
+      return;
+    }
+    if (this.isRed(child)) {
+      child!.isRed = false;
+      this.recolorings++;
+    } else {
+      this.fixDelete(child, parent);
+    }
+  }
+
+  // `node` carries an extra black; it may be null, so its parent is tracked separately
+  private fixDelete(node: RedBlackNode | null, parent: RedBlackNode | null): void {
+    while (parent !== null && !this.isRed(node)) {
+      if (node === parent.left) {
+        let sibling = parent.right!;
+        if (sibling.isRed) {
+          // Red sibling: rotate so the sibling is black
+          sibling.isRed = false;
+          parent.isRed = true;
+          this.recolorings += 2;
+          this.rotateLeft(parent);
+          sibling = parent.right!;
+        }
+        if (!this.isRed(sibling.left) && !this.isRed(sibling.right)) {
+          // Black nephews: push the extra black up
+          sibling.isRed = true;
+          this.recolorings++;
+          node = parent;
+          parent = node.parent;
+        } else {
+          if (!this.isRed(sibling.right)) {
+            sibling.left!.isRed = false;
+            sibling.isRed = true;
+            this.recolorings += 2;
+            this.rotateRight(sibling);
+            sibling = parent.right!;
+          }
+          sibling.isRed = parent.isRed;
+          parent.isRed = false;
+          sibling.right!.isRed = false;
+          this.recolorings += 3;
+          this.rotateLeft(parent);
+          node = this.root;
+          parent = null;
+        }
+      } else {
+        let sibling = parent.left!;
+        if (sibling.isRed) {
+          sibling.isRed = false;
+          parent.isRed = true;
+          this.recolorings += 2;
+          this.rotateRight(parent);
+          sibling = parent.left!;
+        }
+        if (!this.isRed(sibling.left) && !this.isRed(sibling.right)) {
+          sibling.isRed = true;
+          this.recolorings++;
+          node = parent;
+          parent = node.parent;
+        } else {
+          if (!this.isRed(sibling.left)) {
+            sibling.right!.isRed = false;
+            sibling.isRed = true;
+            this.recolorings += 2;
+            this.rotateLeft(sibling);
+            sibling = parent.left!;
+          }
+          sibling.isRed = parent.isRed;
+          parent.isRed = false;
+          sibling.left!.isRed = false;
+          this.recolorings += 3;
+          this.rotateRight(parent);
+          node = this.root;
+          parent = null;
+        }
+      }
+    }
+
+    if (node !== null && node.isRed) {
+      node.isRed = false;
+      this.recolorings++;
+    }
+  }
+
+  range(lo: string, hi: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.comparisons = 0;
+
+    const results: Array<{ key: string; value: any }> = [];
+    this.collectRange(this.root, lo, hi, results);
+    const endTime = performance.now();
+    this.totalComparisons += this.comparisons;
+
+    return {
+      results,
+      count: results.length,
+      comparisons: this.comparisons,
+      latency: endTime - startTime
+    };
+  }
+
+  keysWithPrefix(prefix: string): any {
+    return this.range(prefix, prefix + '\uffff');
+  }
+
+  private collectRange(node: RedBlackNode | null, lo: string, hi: string, results: Array<{ key: string; value: any }>): void {
+    if (node === null) {
+      return;
+    }
+
+    this.comparisons++;
+
+    if (lo < node.key) {
+      this.collectRange(node.left, lo, hi, results);
+    }
+    if (lo <= node.key && node.key <= hi) {
+      results.push({ key: node.key, value: node.value });
+    }
+    if (node.key < hi) {
+      this.collectRange(node.right, lo, hi, results);
+    }
+  }
+
+  getStats() {
+    return {
+      accessCount: this.accessCount,
+      avgComparisons: this.totalComparisons / Math.max(this.accessCount, 1),
+      rotations: this.rotations,
+      recolorings: this.recolorings,
+      height: this.heightOf(this.root),
+      estimatedBytes: this.estimateMemory()
+    };
+  }
+
+  // Like the BST, plus the color and parent pointer
+  estimateMemory(): number {
+    const visit = (node: RedBlackNode | null): number =>
+      node === null ? 0 : MEMORY.object + 6 * MEMORY.field + stringBytes(node.key) + visit(node.left) + visit(node.right);
+    return visit(this.root);
+  }
+
+  private heightOf(node: RedBlackNode | null): number {
+    if (node === null) {
+      return 0;
+    }
+    return 1 + Math.max(this.heightOf(node.left), this.heightOf(node.right));
+  }
+}
+
+// Splay Tree Implementation
+export class SplayNode {
+  constructor(
+    public key: string,
+    public value: any,
+    public left: SplayNode | null = null,
+    public right: SplayNode | null = null
+  ) {}
+}
+
+// Self-adjusting BST: every access splays the touched node to the root, so a hot set
+// stays near the top and repeated lookups get cheap
+export class SplayTree {
+  private root: SplayNode | null = null;
+  public accessCount = 0;
+  public comparisons = 0;
+  public rotations = 0;
+  private totalComparisons = 0;
+  private totalRotations = 0;
+
+  insert(key: string, value: any): void {
+    if (this.root === null) {
+      this.root = new SplayNode(key, value);
+      return;
+    }
+
+    const root = this.splay(this.root, key);
+    if (key === root.key) {
+      root.value = value;
+      this.root = root;
+      return;
+    }
+
+    // Split around the splayed root and hang both halves off the new node
+    const node = new SplayNode(key, value);
+    if (key < root.key) {
+      node.left = root.left;
+      node.right = root;
+      root.left = null;
+    } else {
+      node.right = root.right;
+      node.left = root;
+      root.right = null;
+    }
+    this.root = node;
+  }
+
+  // Top-down splay: brings the node with the key (or the last node on its search path) to the top
+  private splay(root: SplayNode, key: string): SplayNode {
+    const header = new SplayNode('', null);
+    let leftTreeMax = header;
+    let rightTreeMin = header;
+    let current = root;
+
+    for (;;) {
+      this.comparisons++;
+      if (key < current.key) {
+        if (current.left === null) break;
+        this.comparisons++;
+        if (key < current.left.key) {
+          // Zig-zig: rotate right before linking
+          const child: SplayNode = current.left;
+          current.left = child.right;
+          child.right = current;
+          current = child;
+          this.rotations++;
+          if (current.left === null) break;
+        }
+        rightTreeMin.left = current;
+        rightTreeMin = current;
+        current = current.left!;
+      } else if (key > current.key) {
+        if (current.right === null) break;
+        this.comparisons++;
+        if (key > current.right.key) {
+          // Zag-zag: rotate left before linking
+          const child: SplayNode = current.right;
+          current.right = child.left;
+          child.left = current;
+          current = child;
+          this.rotations++;
+          if (current.right === null) break;
+        }
+        leftTreeMax.right = current;
+        leftTreeMax = current;
+        current = current.right!;
+      } else {
+        break;
+      }
+    }
+
+    leftTreeMax.right = current.left;
+    rightTreeMin.left = current.right;
+    current.left = header.right;
+    current.right = header.left;
+    return current;
+  }
+
+  private beginOperation(): number {
+    this.accessCount++;
+    this.comparisons = 0;
+    this.rotations = 0;
+    return performance.now();
+  }
+
+  private endOperation(startTime: number): number {
+    this.totalComparisons += this.comparisons;
+    this.totalRotations += this.rotations;
+    return performance.now() - startTime;
+  }
+
+  search(key: string): any {
+    const startTime = this.beginOperation();
+    let found = false;
+    if (this.root !== null) {
+      this.root = this.splay(this.root, key);
+      found = this.root.key === key;
+    }
+    const latency = this.endOperation(startTime);
+
+    return {
+      value: found ? this.root!.value : null,
+      found,
+      comparisons: this.comparisons,
+      rotations: this.rotations,
+      latency
+    };
+  }
+
+  update(key: string, value: any): any {
+    const startTime = this.beginOperation();
+    let previous: any | null = null;
+    let found = false;
+    if (this.root !== null) {
+      this.root = this.splay(this.root, key);
+      found = this.root.key === key;
+      if (found) {
+        previous = this.root.value;
+        this.root.value = value;
+      }
+    }
+    const latency = this.endOperation(startTime);
+
+    return {
+      value: previous,
+      found,
+      comparisons: this.comparisons,
+      rotations: this.rotations,
+      latency
+    };
+  }
+
+  delete(key: string): any {
+    const startTime = this.beginOperation();
+    let removed: any | null = null;
+    let found = false;
+    if (this.root !== null) {
+      const root = this.splay(this.root, key);
+      found = root.key === key;
+      if (!found) {
+        this.root = root;
+      } else {
+        removed = root.value;
+        if (root.left === null) {
+          this.root = root.right;
+        } else {
+          // Every key on the left is smaller, so splaying for this key lifts the left maximum
+          const left = this.splay(root.left, key);
+          left.right = root.right;
+          this.root = left;
+        }
+      }
+    }
+    const latency = this.endOperation(startTime);
+
+    return {
+      value: removed,
+      found,
+      comparisons: this.comparisons,
+      rotations: this.rotations,
+      latency
+    };
+  }
+
+  // Range scans walk the tree in order without splaying
+  range(lo: string, hi: string): any {
+    const startTime = this.beginOperation();
+
+    const results: Array<{ key: string; value: any }> = [];
+    const stack: SplayNode[] = [];
+    let current = this.root;
+    while (current !== null || stack.length > 0) {
+      while (current !== null) {
+        this.comparisons++;
+        stack.push(current);
+        current = lo < current.key ? current.left : null;
+      }
+      const node = stack.pop()!;
+      if (node.key > hi) break;
+      if (lo <= node.key) {
+        results.push({ key: node.key, value: node.value });
+      }
+      current = node.right;
+    }
+    const latency = this.endOperation(startTime);
+
+    return {
+      results,
+      count: results.length,
+      comparisons: this.comparisons,
+      latency
+    };
+  }
+
+  keysWithPrefix(prefix: string): any {
+    return this.range(prefix, prefix + '\uffff');
+  }
+
+  getStats() {
+    return {
+      accessCount: this.accessCount,
+      avgComparisons: this.totalComparisons / Math.max(this.accessCount, 1),
+      rotations: this.totalRotations,
+      height: this.height(),
+      estimatedBytes: this.estimateMemory()
+    };
+  }
+
+  // Same node layout as the BST; iterative for the same reason as height()
+  estimateMemory(): number {
+    let bytes = 0;
+    const stack: SplayNode[] = this.root ? [this.root] : [];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      bytes += MEMORY.object + 4 * MEMORY.field + stringBytes(node.key);
+      if (node.left) stack.push(node.left);
+      if (node.right) stack.push(node.right);
+    }
+    return bytes;
+  }
+
+  // Iterative: a splay tree can degrade into a long path
+  private height(): number {
+    let height = 0;
+    const stack: Array<{ node: SplayNode; depth: number }> = this.root ? [{ node: this.root, depth: 1 }] : [];
+    while (stack.length > 0) {
+      const { node, depth } = stack.pop()!;
+      height = Math.max(height, depth);
+      if (node.left) stack.push({ node: node.left, depth: depth + 1 });
+      if (node.right) stack.push({ node: node.right, depth: depth + 1 });
+    }
+    return height;
+  }
+}
+
+// Skip List Implementation
+export class SkipListNode {
+  forward: Array<SkipListNode | null>;
+
+  constructor(public key: string, public value: any, level: number) {
+    this.forward = new Array(level).fill(null);
+  }
+}
+
+// Probabilistic ordered list: each node is promoted a level with probability p, giving
+// expected O(log n) hops without any rebalancing
+export class SkipList {
+  private head: SkipListNode;
+  private level = 1;
+  private size = 0;
+  public accessCount = 0;
+  public comparisons = 0;
+  public levelHops = 0;
+  private totalComparisons = 0;
+  private totalLevelHops = 0;
+
+  private random: SeededRandom;
+
+  // Node heights come from a seeded source, so the same inserts always build the same list
+  constructor(private maxLevel: number = 32, private p: number = 0.5, seed: number = DEFAULT_SEED) {
+    this.head = new SkipListNode('', null, maxLevel);
+    this.random = new SeededRandom(seed, RANDOM_STREAMS.structures);
+  }
+
+  private randomLevel(): number {
+    let level = 1;
+    while (level < this.maxLevel && this.random.next() < this.p) {
+      level++;
+    }
+    return level;
+  }
+
+  // Rightmost node before the key on every level; update[0].forward[0] is the candidate
+  private findPredecessors(key: string): SkipListNode[] {
+    const update: SkipListNode[] = new Array(this.maxLevel).fill(this.head);
+    let current = this.head;
+    for (let i = this.level - 1; i >= 0; i--) {
+      let next = current.forward[i];
+      while (next !== null) {
+        this.comparisons++;
+        if (next.key >= key) break;
+        current = next;
+        this.levelHops++;
+        next = current.forward[i];
+      }
+      update[i] = current;
+    }
+    return update;
+  }
+
+  insert(key: string, value: any): void {
+    const update = this.findPredecessors(key);
+    const candidate = update[0].forward[0];
+    if (candidate !== null && candidate.key === key) {
+      candidate.value = value;
+      return;
+    }
+
+    const level = this.randomLevel();
+    this.level = Math.max(this.level, level);
+    const node = new SkipListNode(key, value, level);
+    for (let i = 0; i < level; i++) {
+      node.forward[i] = update[i].forward[i];
+      update[i].forward[i] = node;
+    }
+    this.size++;
+  }
+
+  private beginOperation(): number {
+    this.accessCount++;
+    this.comparisons = 0;
+    this.levelHops = 0;
+    return performance.now();
+  }
+
+  private endOperation(startTime: number): number {
+    this.totalComparisons += this.comparisons;
+    this.totalLevelHops += this.levelHops;
+    return performance.now() - startTime;
+  }
+
+  private find(key: string): SkipListNode | null {
+    const candidate = this.findPredecessors(key)[0].forward[0];
+    return candidate !== null && candidate.key === key ? candidate : null;
+  }
+
+  search(key: string): any {
+    const startTime = this.beginOperation();
+    const node = this.find(key);
+    const latency = this.endOperation(startTime);
+
+    return {
+      value: node ? node.value : null,
+      found: node !== null,
+      comparisons: this.comparisons,
+      levelHops: this.levelHops,
+      latency
+    };
+  }
+
+  update(key: string, value: any): any {
+    const startTime = this.beginOperation();
+    const node = this.find(key);
+    const previous = node ? node.value : null;
+    if (node) {
+      node.value = value;
+    }
+    const latency = this.endOperation(startTime);
+
+    return {
+      value: previous,
+      found: node !== null,
+      comparisons: this.comparisons,
+      levelHops: this.levelHops,
+      latency
+    };
+  }
+
+  delete(key: string): any {
+    const startTime = this.beginOperation();
+    const update = this.findPredecessors(key);
+    const candidate = update[0].forward[0];
+    const found = candidate !== null && candidate.key === key;
+    if (found) {
+      for (let i = 0; i < this.level && update[i].forward[i] === candidate; i++) {
+        update[i].forward[i] = candidate!.forward[i];
+      }
+      while (this.level > 1 && this.head.forward[this.level - 1] === null) {
+        this.level--;
+      }
+      this.size--;
+    }
+    const latency = this.endOperation(startTime);
+
+    return {
+      value: found ? candidate!.value : null,
+      found,
+      comparisons: this.comparisons,
+      levelHops: this.levelHops,
+      latency
+    };
+  }
+
+  // Descend to the first key >= lo, then walk the bottom level
+  range(lo: string, hi: string): any {
+    const startTime = this.beginOperation();
+
+    const results: Array<{ key: string; value: any }> = [];
+    let node = this.findPredecessors(lo)[0].forward[0];
+    while (node !== null) {
+      this.comparisons++;
+      if (node.key > hi) break;
+      results.push({ key: node.key, value: node.value });
+      node = node.forward[0];
+      this.levelHops++;
+    }
+    const latency = this.endOperation(startTime);
+
+    return {
+      results,
+      count: results.length,
+      comparisons: this.comparisons,
+      levelHops: this.levelHops,
+      latency
+    };
+  }
+
+  keysWithPrefix(prefix: string): any {
+    return this.range(prefix, prefix + '\uffff');
+  }
+
+  getStats() {
+    // Nodes per level, bottom first
+    const nodesPerLevel: number[] = [];
+    for (let i = 0; i < this.level; i++) {
+      let count = 0;
+      for (let node = this.head.forward[i]; node !== null; node = node.forward[i]) {
+        count++;
+      }
+      nodesPerLevel.push(count);
+    }
+
+    return {
+      accessCount: this.accessCount,
+      avgComparisons: this.totalComparisons / Math.max(this.accessCount, 1),
+      avgLevelHops: this.totalLevelHops / Math.max(this.accessCount, 1),
+      levels: this.level,
+      nodes: this.size,
+      nodesPerLevel,
+      estimatedBytes: this.estimateMemory()
+    };
+  }
+
+  // Each node carries a forward array as tall as its level; the head is maxLevel tall
+  estimateMemory(): number {
+    const nodeBytes = (node: SkipListNode) =>
+      MEMORY.object + 3 * MEMORY.field + MEMORY.arrayBase + node.forward.length * MEMORY.field;
+    let bytes = nodeBytes(this.head);
+    for (let node = this.head.forward[0]; node !== null; node = node.forward[0]) {
+      bytes += nodeBytes(node) + stringBytes(node.key);
+    }
+    return bytes;
+  }
+}
+
+// Hash Table Implementation
+export interface HashTableOptions {
+  maxLoadFactor?: number; // grow (double the buckets) above this
+  minLoadFactor?: number; // shrink (halve the buckets) below this, never under the initial size
+  incremental?: boolean; // migrate a few buckets per operation instead of rehashing all at once
+  rehashBatch?: number; // buckets migrated per operation while rehashing incrementally
+  hashFunction?: HashFunctionType;
+}
+
+export interface RehashEvent {
+  from: number;
+  to: number;
+  entriesMoved: number;
+  latency: number; // total time spent moving entries, across all steps when incremental
+  incremental: boolean;
+}
+
+export class HashTable {
+  private buckets: Array<Array<{ key: string; value: any }>> = [];
+  private size: number;
+  private initialSize: number;
+  private count = 0;
+  private options: Required<HashTableOptions>;
+  private hashFunction: HashFunction;
+  // Old bucket array while an incremental rehash is in progress
+  private oldBuckets: Array<Array<{ key: string; value: any }>> | null = null;
+  private migrateIndex = 0;
+  private activeRehash: RehashEvent | null = null;
+  public accessCount = 0;
+  public collisions = 0;
+  public rehashEvents: RehashEvent[] = [];
+  public maxRehashPause = 0;
+
+  constructor(size: number = 1000, options: HashTableOptions = {}) {
+    this.size = size;
+    this.initialSize = size;
+    this.options = {
+      maxLoadFactor: options.maxLoadFactor ?? 0.75,
+      minLoadFactor: options.minLoadFactor ?? 0.1,
+      incremental: options.incremental ?? false,
+      rehashBatch: options.rehashBatch ?? 64,
+      hashFunction: options.hashFunction ?? 'Java'
+    };
+    this.hashFunction = createHashFunction(this.options.hashFunction);
+    this.buckets = new Array(size).fill(null).map(() => []);
+  }
+
+  private hash(key: string, size: number = this.size): number {
+    return this.hashFunction.hash(key) % size;
+  }
+
+  // Bucket currently holding the key: the new array, or the old one if not yet migrated
+  private bucketFor(key: string): Array<{ key: string; value: any }> {
+    if (this.oldBuckets) {
+      const oldIndex = this.hash(key, this.oldBuckets.length);
+      if (oldIndex >= this.migrateIndex) {
+        const oldBucket = this.oldBuckets[oldIndex];
+        if (oldBucket.some(item => item.key === key)) {
+          return oldBucket;
+        }
+      }
+    }
+    return this.buckets[this.hash(key)];
+  }
+
+  // Returns the time spent rehashing synchronously (zero when the rehash is incremental)
+  private resizeIfNeeded(): number {
+    if (this.oldBuckets) return 0;
+
+    const loadFactor = this.count / this.size;
+    if (loadFactor > this.options.maxLoadFactor) {
+      return this.resize(this.size * 2);
+    }
+    if (loadFactor < this.options.minLoadFactor && this.size > this.initialSize) {
+      return this.resize(Math.max(this.initialSize, Math.floor(this.size / 2)));
+    }
+    return 0;
+  }
+
+  private resize(newSize: number): number {
+    this.oldBuckets = this.buckets;
+    this.migrateIndex = 0;
+    this.activeRehash = {
+      from: this.size,
+      to: newSize,
+      entriesMoved: 0,
+      latency: 0,
+      incremental: this.options.incremental
+    };
+    this.size = newSize;
+    this.buckets = new Array(newSize).fill(null).map(() => []);
+
+    return this.options.incremental ? 0 : this.rehashStep(Infinity);
+  }
+
+  // Moves up to `batch` old buckets into the new array; returns the time spent
+  private rehashStep(batch: number = this.options.rehashBatch): number {
+    if (!this.oldBuckets || !this.activeRehash) return 0;
+
+    const startTime = performance.now();
+    const end = Math.min(this.oldBuckets.length, this.migrateIndex + batch);
+    for (; this.migrateIndex < end; this.migrateIndex++) {
+      for (const item of this.oldBuckets[this.migrateIndex]) {
+        this.buckets[this.hash(item.key)].push(item);
+        this.activeRehash.entriesMoved++;
+      }
+      this.oldBuckets[this.migrateIndex] = [];
+    }
+    const pause = performance.now() - startTime;
+
+    this.activeRehash.latency += pause;
+    this.maxRehashPause = Math.max(this.maxRehashPause, pause);
+    if (this.migrateIndex >= this.oldBuckets.length) {
+      this.rehashEvents.push(this.activeRehash);
+      this.oldBuckets = null;
+      this.activeRehash = null;
+    }
+    return pause;
+  }
+
+  // Returns the time spent rehashing, like the rehashLatency other operations report
+  insert(key: string, value: any): number {
+    let rehashLatency = this.rehashStep();
+    const bucket = this.bucketFor(key);
+    
+    // Check for existing key
+    const existingItem = bucket.find(item => item.key === key);
+    if (existingItem) {
+      existingItem.value = value;
+    } else {
+      if (bucket.length > 0) {
+        this.collisions++;
+      }
+      bucket.push({ key, value });
+      this.count++;
+      rehashLatency += this.resizeIfNeeded();
+    }
+    return rehashLatency;
+  }
+
+  search(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    const rehashLatency = this.rehashStep();
+    
+    const bucket = this.bucketFor(key);
+    
+    const item = bucket.find(item => item.key === key);
+    const endTime = performance.now();
+    
+    return {
+      value: item ? item.value : null,
+      found: !!item,
+      bucketSize: bucket.length,
+      rehashLatency,
+      latency: endTime - startTime
+    };
+  }
+
+  update(key: string, value: any): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    const rehashLatency = this.rehashStep();
+
+    const bucket = this.bucketFor(key);
+
+    const item = bucket.find(item => item.key === key);
+    const previous = item ? item.value : null;
+    if (item) {
+      item.value = value;
+    }
+    const endTime = performance.now();
+
+    return {
+      value: previous,
+      found: !!item,
+      bucketSize: bucket.length,
+      rehashLatency,
+      latency: endTime - startTime
+    };
+  }
+
+  delete(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    let rehashLatency = this.rehashStep();
+
+    const bucket = this.bucketFor(key);
+    const bucketSize = bucket.length;
+
+    const position = bucket.findIndex(item => item.key === key);
+    const removed = position >= 0 ? bucket.splice(position, 1)[0] : null;
+    if (removed) {
+      this.count--;
+      rehashLatency += this.resizeIfNeeded();
+    }
+    const endTime = performance.now();
+
+    return {
+      value: removed ? removed.value : null,
+      found: !!removed,
+      bucketSize,
+      rehashLatency,
+      latency: endTime - startTime
+    };
+  }
+
+  // Brute force, like prefix queries: every entry is compared against the key
+  fuzzySearch(key: string, maxDistance: number): any {
+    const startTime = performance.now();
+    this.accessCount++;
+
+    let scanned = 0;
+    let dpCells = 0;
+    const matches: FuzzyMatch[] = [];
+    for (const entry of (this.oldBuckets ? [...this.buckets, ...this.oldBuckets] : this.buckets).flat()) {
+      scanned++;
+      const { distance, cells } = boundedEditDistance(key, entry.key, maxDistance);
+      dpCells += cells;
+      if (distance <= maxDistance) {
+        matches.push({ key: entry.key, value: entry.value, distance });
+      }
+    }
+    const endTime = performance.now();
+
+    return {
+      results: rankFuzzyMatches(matches),
+      count: matches.length,
+      scanned,
+      dpCells,
+      latency: endTime - startTime
+    };
+  }
+
+  // Hashing destroys key order, so prefix queries have to scan every entry
+  keysWithPrefix(prefix: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+
+    let scanned = 0;
+    const results: Array<{ key: string; value: any }> = [];
+    for (const entry of (this.oldBuckets ? [...this.buckets, ...this.oldBuckets] : this.buckets).flat()) {
+      scanned++;
+      if (entry.key.startsWith(prefix)) {
+        results.push({ key: entry.key, value: entry.value });
+      }
+    }
+    results.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    const endTime = performance.now();
+
+    return {
+      results,
+      count: results.length,
+      scanned,
+      latency: endTime - startTime
+    };
+  }
+
+  getStats() {
+    const nonEmptyBuckets = this.buckets.filter(bucket => bucket.length > 0).length;
+    
+    return {
+      accessCount: this.accessCount,
+      hashFunction: this.hashFunction.name,
+      collisions: this.collisions,
+      loadFactor: this.count / this.size,
+      bucketUtilization: nonEmptyBuckets / this.size,
+      buckets: this.size,
+      rehashes: this.rehashEvents.length,
+      rehashing: this.oldBuckets !== null,
+      entriesRehashed: this.rehashEvents.reduce((sum, event) => sum + event.entriesMoved, 0),
+      rehashTime: this.rehashEvents.reduce((sum, event) => sum + event.latency, 0),
+      maxRehashPause: this.maxRehashPause,
+      rehashEvents: this.rehashEvents,
+      estimatedBytes: this.estimateMemory()
+    };
+  }
+
+  // Bucket array, one array per bucket and an entry object per key; both bucket arrays
+  // count while an incremental rehash is in progress
+  estimateMemory(): number {
+    const bucketArrayBytes = (buckets: Array<Array<{ key: string; value: any }>>): number => {
+      let bytes = MEMORY.arrayBase + buckets.length * MEMORY.field;
+      for (const bucket of buckets) {
+        bytes += MEMORY.arrayBase + bucket.length * MEMORY.field;
+        for (const entry of bucket) {
+          bytes += MEMORY.object + 2 * MEMORY.field + stringBytes(entry.key);
+        }
+      }
+      return bytes;
+    };
+    return bucketArrayBytes(this.buckets) + (this.oldBuckets ? bucketArrayBytes(this.oldBuckets) : 0);
+  }
+}
+
+// Open Addressing Hash Table Implementations
+const primaryHashFunction = new JavaStringHash();
+// Independent of the primary hash so it can drive double hashing and cuckoo's second table
+const secondaryHashFunction = new FNV1aHash();
+
+function primaryHash(key: string): number {
+  return primaryHashFunction.hash(key);
+}
+
+function secondaryHash(key: string): number {
+  return secondaryHashFunction.hash(key);
+}
+
+function nextPowerOfTwo(n: number): number {
+  let power = 1;
+  while (power < n) power *= 2;
+  return power;
+}
+
+export type ProbingScheme = 'linear' | 'quadratic' | 'double';
+
+interface OpenAddressingSlot {
+  key: string;
+  value: any;
+  displacement: number; // probe index the entry was placed at
+  deleted: boolean;
+}
+
+export class OpenAddressingHashTable {
+  private slots: Array<OpenAddressingSlot | null>;
+  private capacity: number;
+  private mask: number;
+  private count = 0;
+  private tombstones = 0;
+  private maxLoadFactor = 0.7;
+  public accessCount = 0;
+  public totalProbes = 0;
+  public maxProbeLength = 0;
+  public rehashes = 0;
+
+  // Capacity is rounded up to a power of two so triangular quadratic probing
+  // and odd double-hashing steps both visit every slot
+  constructor(size: number = 16384, private scheme: ProbingScheme = 'linear') {
+    this.capacity = nextPowerOfTwo(size);
+    this.mask = this.capacity - 1;
+    this.slots = new Array(this.capacity).fill(null);
+  }
+
+  private slotIndex(key: string, home: number, attempt: number): number {
+    switch (this.scheme) {
+      case 'linear':
+        return (home + attempt) & this.mask;
+      case 'quadratic':
+        return (home + (attempt * (attempt + 1)) / 2) & this.mask;
+      case 'double':
+        return (home + attempt * (secondaryHash(key) | 1)) & this.mask;
+      default:
+        throw new Error(`Unknown probing scheme: ${this.scheme}`);
+    }
+  }
+
+  private locate(key: string): { index: number; probes: number } {
+    const home = primaryHash(key) & this.mask;
+
+    for (let attempt = 0; attempt < this.capacity; attempt++) {
+      const index = this.slotIndex(key, home, attempt);
+      const slot = this.slots[index];
+      if (slot === null) {
+        return { index: -1, probes: attempt + 1 };
+      }
+      if (!slot.deleted && slot.key === key) {
+        return { index, probes: attempt + 1 };
+      }
+    }
+    return { index: -1, probes: this.capacity };
+  }
+
+  private recordProbes(probes: number): void {
+    this.totalProbes += probes;
+    this.maxProbeLength = Math.max(this.maxProbeLength, probes);
+  }
+
+  insert(key: string, value: any): void {
+    const existing = this.locate(key);
+    if (existing.index >= 0) {
+      this.slots[existing.index]!.value = value;
+      return;
+    }
+
+    // Tombstones lengthen probe sequences just like live entries, so both count toward the load
+    if (this.count + this.tombstones + 1 > this.capacity * this.maxLoadFactor) {
+      // Mostly tombstones: clearing them at the same size is enough; otherwise double
+      const crowded = (this.count + 1) * 2 > this.capacity * this.maxLoadFactor;
+      this.rehash(crowded ? this.capacity * 2 : this.capacity);
+    }
+    this.place(key, value);
+  }
+
+  private place(key: string, value: any): void {
+    const home = primaryHash(key) & this.mask;
+    for (let attempt = 0; attempt < this.capacity; attempt++) {
+      const index = this.slotIndex(key, home, attempt);
+      const slot = this.slots[index];
+      if (slot === null || slot.deleted) {
+        if (slot !== null) this.tombstones--;
+        this.slots[index] = { key, value, displacement: attempt, deleted: false };
+        this.count++;
+        this.maxProbeLength = Math.max(this.maxProbeLength, attempt + 1);
+        return;
+      }
+    }
+    throw new Error(`Hash table is full (${this.capacity} slots)`);
+  }
+
+  // Reinsert the live entries into a fresh slot array, dropping every tombstone
+  private rehash(capacity: number): void {
+    const entries = this.slots.filter(slot => slot !== null && !slot.deleted) as OpenAddressingSlot[];
+    this.rehashes++;
+    this.capacity = capacity;
+    this.mask = capacity - 1;
+    this.slots = new Array(capacity).fill(null);
+    this.count = 0;
+    this.tombstones = 0;
+    for (const entry of entries) {
+      this.place(entry.key, entry.value);
+    }
+  }
+
+  search(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+
+    const { index, probes } = this.locate(key);
+    this.recordProbes(probes);
+    const endTime = performance.now();
+
+    return {
+      value: index >= 0 ? this.slots[index]!.value : null,
+      found: index >= 0,
+      probes,
+      latency: endTime - startTime
+    };
+  }
+
+  update(key: string, value: any): any {
+    const startTime = performance.now();
+    this.accessCount++;
+
+    const { index, probes } = this.locate(key);
+    this.recordProbes(probes);
+    const previous = index >= 0 ? this.slots[index]!.value : null;
+    if (index >= 0) {
+      this.slots[index]!.value = value;
+    }
+    const endTime = performance.now();
+
+    return {
+      value: previous,
+      found: index >= 0,
+      probes,
+      latency: endTime - startTime
+    };
+  }
+
+  delete(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+
+    const { index, probes } = this.locate(key);
+    this.recordProbes(probes);
+    const removed = index >= 0 ? this.slots[index]! : null;
+    if (removed) {
+      // Leave a tombstone so probe sequences passing through this slot stay intact
+      removed.deleted = true;
+      this.count--;
+      this.tombstones++;
+    }
+    const endTime = performance.now();
+
+    return {
+      value: removed ? removed.value : null,
+      found: !!removed,
+      probes,
+      latency: endTime - startTime
+    };
+  }
+
+  // Hashing destroys key order, so prefix queries have to scan every entry
+  keysWithPrefix(prefix: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+
+    let scanned = 0;
+    const results: Array<{ key: string; value: any }> = [];
+    for (const entry of this.slots) {
+      if (entry === null || entry.deleted) continue;
+      scanned++;
+      if (entry.key.startsWith(prefix)) {
+        results.push({ key: entry.key, value: entry.value });
+      }
+    }
+    results.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    const endTime = performance.now();
+
+    return {
+      results,
+      count: results.length,
+      scanned,
+      latency: endTime - startTime
+    };
+  }
+
+  getStats() {
+    let totalDisplacement = 0;
+    let maxDisplacement = 0;
+    for (const slot of this.slots) {
+      if (slot && !slot.deleted) {
+        totalDisplacement += slot.displacement;
+        maxDisplacement = Math.max(maxDisplacement, slot.displacement);
+      }
+    }
+
+    return {
+      accessCount: this.accessCount,
+      scheme: this.scheme,
+      capacity: this.capacity,
+      loadFactor: this.count / this.capacity,
+      tombstones: this.tombstones,
+      rehashes: this.rehashes,
+      avgProbes: this.accessCount > 0 ? this.totalProbes / this.accessCount : 0,
+      maxProbeLength: this.maxProbeLength,
+      avgDisplacement: this.count > 0 ? totalDisplacement / this.count : 0,
+      maxDisplacement,
+      estimatedBytes: this.estimateMemory()
+    };
+  }
+
+  // The slot array is paid for at full capacity; tombstones still hold their entry
+  estimateMemory(): number {
+    let bytes = MEMORY.arrayBase + this.capacity * MEMORY.field;
+    for (const slot of this.slots) {
+      if (slot) {
+        bytes += MEMORY.object + 4 * MEMORY.field + stringBytes(slot.key);
+      }
+    }
+    return bytes;
+  }
+}
+
+interface RobinHoodSlot {
+  key: string;
+  value: any;
+  displacement: number; // distance from the home slot
+}
+
+// Linear probing that lets entries far from home take slots from entries close to home,
+// which evens out probe lengths and lets unsuccessful lookups stop early
+export class RobinHoodHashTable {
+  private slots: Array<RobinHoodSlot | null>;
+  private capacity: number;
+  private mask: number;
+  private count = 0;
+  private maxLoadFactor = 0.7;
+  public accessCount = 0;
+  public totalProbes = 0;
+  public maxProbeLength = 0;
+  public swaps = 0;
+  public rehashes = 0;
+
+  constructor(size: number = 16384) {
+    this.capacity = nextPowerOfTwo(size);
+    this.mask = this.capacity - 1;
+    this.slots = new Array(this.capacity).fill(null);
+  }
+
+  private locate(key: string): { index: number; probes: number } {
+    let index = primaryHash(key) & this.mask;
+
+    for (let distance = 0; distance < this.capacity; distance++) {
+      const slot = this.slots[index];
+      // An entry closer to home than we are means the key would have displaced it
+      if (slot === null || slot.displacement < distance) {
+        return { index: -1, probes: distance + 1 };
+      }
+      if (slot.key === key) {
+        return { index, probes: distance + 1 };
+      }
+      index = (index + 1) & this.mask;
+    }
+    return { index: -1, probes: this.capacity };
+  }
+
+  private recordProbes(probes: number): void {
+    this.totalProbes += probes;
+    this.maxProbeLength = Math.max(this.maxProbeLength, probes);
+  }
+
+  insert(key: string, value: any): void {
+    const existing = this.locate(key);
+    if (existing.index >= 0) {
+      this.slots[existing.index]!.value = value;
+      return;
+    }
+    if (this.count + 1 > this.capacity * this.maxLoadFactor) {
+      this.rehash(this.capacity * 2);
+    }
+    this.place(key, value);
+  }
+
+  private place(key: string, value: any): void {
+    let carried: RobinHoodSlot = { key, value, displacement: 0 };
+    let index = primaryHash(key) & this.mask;
+
+    for (;;) {
+      const slot = this.slots[index];
+      if (slot === null) {
+        this.slots[index] = carried;
+        this.count++;
+        this.maxProbeLength = Math.max(this.maxProbeLength, carried.displacement + 1);
+        return;
+      }
+      if (slot.displacement < carried.displacement) {
+        // Take from the rich: the resident is closer to home, so it moves on instead
+        this.slots[index] = carried;
+        carried = slot;
+        this.swaps++;
+      }
+      carried.displacement++;
+      index = (index + 1) & this.mask;
+    }
+  }
+
+  // Backward-shift deletion leaves no tombstones, so growing is the only reason to rehash
+  private rehash(capacity: number): void {
+    const entries = this.slots.filter(slot => slot !== null) as RobinHoodSlot[];
+    this.rehashes++;
+    this.capacity = capacity;
+    this.mask = capacity - 1;
+    this.slots = new Array(capacity).fill(null);
+    this.count = 0;
+    for (const entry of entries) {
+      this.place(entry.key, entry.value);
+    }
+  }
+
+  search(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+
+    const { index, probes } = this.locate(key);
+    this.recordProbes(probes);
+    const endTime = performance.now();
+
+    return {
+      value: index >= 0 ? this.slots[index]!.value : null,
+      found: index >= 0,
+      probes,
+      latency: endTime - startTime
+    };
+  }
+
+  update(key: string, value: any): any {
+    const startTime = performance.now();
+    this.accessCount++;
+
+    const { index, probes } = this.locate(key);
+    this.recordProbes(probes);
+    const previous = index >= 0 ? this.slots[index]!.value : null;
+    if (index >= 0) {
+      this.slots[index]!.value = value;
+    }
+    const endTime = performance.now();
+
+    return {
+      value: previous,
+      found: index >= 0,
+      probes,
+      latency: endTime - startTime
+    };
+  }
+
+  delete(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+
+    const { index, probes } = this.locate(key);
+    this.recordProbes(probes);
+    const removed = index >= 0 ? this.slots[index]! : null;
+    if (removed) {
+      // Backward-shift deletion: pull the following run one slot closer to home
+      let current = index;
+      let next = (current + 1) & this.mask;
+      while (this.slots[next] !== null && this.slots[next]!.displacement > 0) {
+        this.slots[current] = this.slots[next];
+        this.slots[current]!.displacement--;
+        current = next;
+        next = (next + 1) & this.mask;
+      }
+      this.slots[current] = null;
+      this.count--;
+    }
+    const endTime = performance.now();
+
+    return {
+      value: removed ? removed.value : null,
+      found: !!removed,
+      probes,
+      latency: endTime - startTime
+    };
+  }
+
+  // Hashing destroys key order, so prefix queries have to scan every entry
+  keysWithPrefix(prefix: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+
+    let scanned = 0;
+    const results: Array<{ key: string; value: any }> = [];
+    for (const entry of this.slots) {
+      if (entry === null) continue;
+      scanned++;
+      if (entry.key.startsWith(prefix)) {
+        results.push({ key: entry.key, value: entry.value });
+      }
+    }
+    results.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    const endTime = performance.now();
+
+    return {
+      results,
+      count: results.length,
+      scanned,
+      latency: endTime - startTime
+    };
+  }
+
+  getStats() {
+    let totalDisplacement = 0;
+    let maxDisplacement = 0;
+    for (const slot of this.slots) {
+      if (slot) {
+        totalDisplacement += slot.displacement;
+        maxDisplacement = Math.max(maxDisplacement, slot.displacement);
+      }
+    }
+
+    return {
+      accessCount: this.accessCount,
+      capacity: this.capacity,
+      loadFactor: this.count / this.capacity,
+      avgProbes: this.accessCount > 0 ? this.totalProbes / this.accessCount : 0,
+      maxProbeLength: this.maxProbeLength,
+      avgDisplacement: this.count > 0 ? totalDisplacement / this.count : 0,
+      maxDisplacement,
+      swaps: this.swaps,
+      rehashes: this.rehashes,
+      estimatedBytes: this.estimateMemory()
+    };
+  }
+
+  estimateMemory(): number {
+    let bytes = MEMORY.arrayBase + this.capacity * MEMORY.field;
+    for (const slot of this.slots) {
+      if (slot) {
+        bytes += MEMORY.object + 3 * MEMORY.field + stringBytes(slot.key);
+      }
+    }
+    return bytes;
+  }
+}
+
+// Two tables with independent hashes: every key lives in one of exactly two slots,
+// so lookups take at most two probes and inserts kick residents to their other slot
+export class CuckooHashTable {
+  private tables: Array<Array<{ key: string; value: any } | null>> = [];
+  private capacity: number; // slots per table
+  private mask: number;
+  private seeds: [number, number] = [0, 0];
+  private count = 0;
+  private maxKicks = 32;
+  public accessCount = 0;
+  public totalProbes = 0;
+  public maxProbeLength = 0;
+  public kicks = 0;
+  public maxKickChain = 0;
+  public rehashes = 0;
+
+  constructor(size: number = 8192) {
+    this.capacity = nextPowerOfTwo(size);
+    this.mask = this.capacity - 1;
+    this.tables = [new Array(this.capacity).fill(null), new Array(this.capacity).fill(null)];
+  }
+
+  private slotIndex(table: number, key: string): number {
+    const hash = table === 0 ? primaryHash(key) : secondaryHash(key);
+    return (Math.imul(hash ^ this.seeds[table], 0x9e3779b1) >>> 0) & this.mask;
+  }
+
+  private locate(key: string): { table: number; index: number; probes: number } {
+    for (let table = 0; table < 2; table++) {
+      const index = this.slotIndex(table, key);
+      if (this.tables[table][index]?.key === key) {
+        return { table, index, probes: table + 1 };
+      }
+    }
+    return { table: -1, index: -1, probes: 2 };
+  }
+
+  private recordProbes(probes: number): void {
+    this.totalProbes += probes;
+    this.maxProbeLength = Math.max(this.maxProbeLength, probes);
+  }
+
+  insert(key: string, value: any): void {
+    const existing = this.locate(key);
+    if (existing.table >= 0) {
+      this.tables[existing.table][existing.index]!.value = value;
+      return;
+    }
+
+    let carried = { key, value };
+    let table = 0;
+    for (let kick = 0; kick <= this.maxKicks; kick++) {
+      const index = this.slotIndex(table, carried.key);
+      const resident = this.tables[table][index];
+      this.tables[table][index] = carried;
+      if (resident === null) {
+        this.count++;
+        this.maxKickChain = Math.max(this.maxKickChain, kick);
+        return;
+      }
+      this.kicks++;
+      carried = resident;
+      table = 1 - table;
+    }
+
+    // Eviction cycle: grow with fresh seeds and place the homeless entry again
+    this.rehash(this.capacity * 2);
+    this.insert(carried.key, carried.value);
+  }
+
+  private rehash(capacity: number): void {
+    const entries = this.tables.flatMap(table => table.filter(entry => entry !== null)) as Array<{ key: string; value: any }>;
+    this.rehashes++;
+    this.capacity = capacity;
+    this.mask = capacity - 1;
+    this.seeds = [this.rehashes * 0x85ebca6b, this.rehashes * 0xc2b2ae35];
+    this.tables = [new Array(capacity).fill(null), new Array(capacity).fill(null)];
+    this.count = 0;
+    for (const entry of entries) {
+      this.insert(entry.key, entry.value);
+    }
+  }
+
+  search(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+
+    const { table, index, probes } = this.locate(key);
+    this.recordProbes(probes);
+    const endTime = performance.now();
+
+    return {
+      value: table >= 0 ? this.tables[table][index]!.value : null,
+      found: table >= 0,
+      probes,
+      latency: endTime - startTime
+    };
+  }
+
+  update(key: string, value: any): any {
+    const startTime = performance.now();
+    this.accessCount++;
+
+    const { table, index, probes } = this.locate(key);
+    this.recordProbes(probes);
+    const previous = table >= 0 ? this.tables[table][index]!.value : null;
+    if (table >= 0) {
+      this.tables[table][index]!.value = value;
+    }
+    const endTime = performance.now();
+
+    return {
+      value: previous,
+      found: table >= 0,
+      probes,
+      latency: endTime - startTime
+    };
+  }
+
+  delete(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+
+    const { table, index, probes } = this.locate(key);
+    this.recordProbes(probes);
+    const removed = table >= 0 ? this.tables[table][index] : null;
+    if (removed) {
+      this.tables[table][index] = null;
+      this.count--;
+    }
+    const endTime = performance.now();
+
+    return {
+      value: removed ? removed.value : null,
+      found: !!removed,
+      probes,
+      latency: endTime - startTime
+    };
+  }
+
+  // Hashing destroys key order, so prefix queries have to scan every entry
+  keysWithPrefix(prefix: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+
+    let scanned = 0;
+    const results: Array<{ key: string; value: any }> = [];
+    for (const entry of [...this.tables[0], ...this.tables[1]]) {
+      if (entry === null) continue;
+      scanned++;
+      if (entry.key.startsWith(prefix)) {
+        results.push({ key: entry.key, value: entry.value });
+      }
+    }
+    results.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    const endTime = performance.now();
+
+    return {
+      results,
+      count: results.length,
+      scanned,
+      latency: endTime - startTime
+    };
+  }
+
+  getStats() {
+    const secondTableEntries = this.tables[1].filter(entry => entry !== null).length;
+
+    return {
+      accessCount: this.accessCount,
+      loadFactor: this.count / (this.capacity * 2),
+      avgProbes: this.accessCount > 0 ? this.totalProbes / this.accessCount : 0,
+      maxProbeLength: this.maxProbeLength,
+      kicks: this.kicks,
+      maxKickChain: this.maxKickChain,
+      secondTableShare: this.count > 0 ? secondTableEntries / this.count : 0,
+      rehashes: this.rehashes,
+      estimatedBytes: this.estimateMemory()
+    };
+  }
+
+  // Two full slot arrays, which is why cuckoo tables run at lower load factors
+  estimateMemory(): number {
+    let bytes = 0;
+    for (const table of this.tables) {
+      bytes += MEMORY.arrayBase + table.length * MEMORY.field;
+      for (const entry of table) {
+        if (entry) {
+          bytes += MEMORY.object + 2 * MEMORY.field + stringBytes(entry.key);
+        }
+      }
+    }
+    return bytes;
+  }
+}
+
+// Trie Implementation
+type PatternToken =
+  | { kind: 'literal'; char: string }
+  | { kind: 'any' }
+  | { kind: 'star' | 'globstar' };
+
+export class TrieNode {
+  children: Map<string, TrieNode> = new Map();
+  isEndOfWord: boolean = false;
+  value: any = null;
+}
+
+export class Trie {
+  private root: TrieNode = new TrieNode();
+  public accessCount = 0;
+  public nodeTraversals = 0;
+  private totalTraversals = 0;
+
+  insert(key: string, value: any): void {
+    let current = this.root;
+    
+    for (const char of key) {
+      if (!current.children.has(char)) {
+        current.children.set(char, new TrieNode());
+      }
+      current = current.children.get(char)!;
+    }
+    
+    current.isEndOfWord = true;
+    current.value = value;
+  }
+
+  search(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+    
+    let current = this.root;
+    
+    for (const char of key) {
+      this.nodeTraversals++;
+      if (!current.children.has(char)) {
+        this.totalTraversals += this.nodeTraversals;
+        const endTime = performance.now();
+        return {
+          value: null,
+          found: false,
+          nodeTraversals: this.nodeTraversals,
+          latency: endTime - startTime
+        };
+      }
+      current = current.children.get(char)!;
+    }
+    
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+    return {
+      value: current.isEndOfWord ? current.value : null,
+      found: current.isEndOfWord,
+      nodeTraversals: this.nodeTraversals,
+      latency: endTime - startTime
+    };
+  }
+
+  update(key: string, value: any): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+
+    const node = this.findNode(key);
+    const found = node !== null && node.isEndOfWord;
+    const previous = found ? node!.value : null;
+    if (found) {
+      node!.value = value;
+    }
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+
+    return {
+      value: previous,
+      found,
+      nodeTraversals: this.nodeTraversals,
+      latency: endTime - startTime
+    };
+  }
+
+  delete(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+
+    // Remember the path so emptied branches can be pruned on the way back up
+    const path: Array<{ node: TrieNode; char: string }> = [];
+    let current: TrieNode | null = this.root;
+
+    for (const char of key) {
+      this.nodeTraversals++;
+      const next: TrieNode | undefined = current.children.get(char);
+      if (!next) {
+        current = null;
+        break;
+      }
+      path.push({ node: current, char });
+      current = next;
+    }
+
+    let removed: any | null = null;
+    if (current !== null && current.isEndOfWord) {
+      removed = current.value;
+      current.isEndOfWord = false;
+      current.value = null;
+
+      for (let i = path.length - 1; i >= 0; i--) {
+        const { node, char } = path[i];
+        const child = node.children.get(char)!;
+        if (child.isEndOfWord || child.children.size > 0) {
+          break;
+        }
+        node.children.delete(char);
+      }
+    }
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+
+    return {
+      value: removed,
+      found: removed !== null,
+      nodeTraversals: this.nodeTraversals,
+      latency: endTime - startTime
+    };
+  }
+
+  startsWith(prefix: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+
+    const node = this.findNode(prefix);
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+
+    return {
+      found: node !== null,
+      nodeTraversals: this.nodeTraversals,
+      latency: endTime - startTime
+    };
+  }
+
+  // Keys under the prefix in sorted order, stopping after `limit` results (autocomplete style)
+  collect(prefix: string, limit: number = Infinity): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+
+    const results: Array<{ key: string; value: any }> = [];
+    const start = this.findNode(prefix);
+    if (start !== null) {
+      this.collectFrom(start, prefix, results, limit);
+    }
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+
+    return {
+      results,
+      count: results.length,
+      limitReached: results.length >= limit,
+      nodeTraversals: this.nodeTraversals,
+      latency: endTime - startTime
+    };
+  }
+
+  keysWithPrefix(prefix: string): any {
+    return this.collect(prefix);
+  }
+
+  // `?` matches any one character and `*` any run of characters, `/` included
+  wildcardSearch(pattern: string): any {
+    return this.matchPattern(pattern, false);
+  }
+
+  // Shell-style glob: `?` and `*` stop at `/`, while `**` spans directories
+  glob(pattern: string): any {
+    return this.matchPattern(pattern, true);
+  }
+
+  // Walks the trie carrying one Levenshtein DP row per node; shared prefixes share rows and
+  // whole subtrees are skipped once no cell in the row is within maxDistance
+  fuzzySearch(key: string, maxDistance: number): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+
+    const target = Array.from(key);
+    const matches: FuzzyMatch[] = [];
+    let dpCells = 0;
+
+    const walk = (node: TrieNode, char: string, path: string, previous: number[]): void => {
+      this.nodeTraversals++;
+      const row = [previous[0] + 1];
+      let rowMin = row[0];
+      for (let j = 1; j <= target.length; j++) {
+        const cost = target[j - 1] === char ? 0 : 1;
+        row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, previous[j - 1] + cost);
+        rowMin = Math.min(rowMin, row[j]);
+        dpCells++;
+      }
+
+      if (node.isEndOfWord && row[target.length] <= maxDistance) {
+        matches.push({ key: path, value: node.value, distance: row[target.length] });
+      }
+      if (rowMin > maxDistance) {
+        return;
+      }
+      for (const [nextChar, child] of node.children) {
+        walk(child, nextChar, path + nextChar, row);
+      }
+    };
+
+    const firstRow = Array.from({ length: target.length + 1 }, (_, j) => j);
+    if (this.root.isEndOfWord && target.length <= maxDistance) {
+      matches.push({ key: '', value: this.root.value, distance: target.length });
+    }
+    for (const [char, child] of this.root.children) {
+      walk(child, char, char, firstRow);
+    }
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+
+    return {
+      results: rankFuzzyMatches(matches),
+      count: matches.length,
+      nodeTraversals: this.nodeTraversals,
+      dpCells,
+      latency: endTime - startTime
+    };
+  }
+
+  private matchPattern(pattern: string, pathAware: boolean): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+
+    const tokens = this.tokenizePattern(pattern, pathAware);
+    const results: Array<{ key: string; value: any }> = [];
+    // (node, token index) pairs already explored; stops stars from re-walking the same subtree
+    const visited: Map<TrieNode, Set<number>> = new Map();
+
+    const walk = (node: TrieNode, key: string, index: number): void => {
+      let seen = visited.get(node);
+      if (!seen) {
+        seen = new Set();
+        visited.set(node, seen);
+      }
+      if (seen.has(index)) return;
+      seen.add(index);
+
+      if (index === tokens.length) {
+        if (node.isEndOfWord) {
+          results.push({ key, value: node.value });
+        }
+        return;
+      }
+
+      const token = tokens[index];
+      if (token.kind === 'literal') {
+        const child = node.children.get(token.char);
+        if (child) {
+          this.nodeTraversals++;
+          walk(child, key + token.char, index + 1);
+        }
+        return;
+      }
+
+      // Star-like tokens may also match nothing
+      if (token.kind !== 'any') {
+        walk(node, key, index + 1);
+      }
+      for (const [char, child] of node.children) {
+        if (pathAware && token.kind !== 'globstar' && char === '/') continue;
+        this.nodeTraversals++;
+        walk(child, key + char, token.kind === 'any' ? index + 1 : index);
+      }
+    };
+
+    walk(this.root, '', 0);
+    results.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+
+    return {
+      results,
+      count: results.length,
+      nodeTraversals: this.nodeTraversals,
+      latency: endTime - startTime
+    };
+  }
+
+  private tokenizePattern(pattern: string, pathAware: boolean): PatternToken[] {
+    const tokens: PatternToken[] = [];
+    const chars = Array.from(pattern);
+
+    for (let i = 0; i < chars.length; i++) {
+      if (chars[i] === '?') {
+        tokens.push({ kind: 'any' });
+      } else if (chars[i] === '*') {
+        const doubled = pathAware && chars[i + 1] === '*';
+        if (doubled) i++;
+        // Collapse runs of stars; they match the same strings as one
+        const kind = doubled ? 'globstar' : 'star';
+        const last = tokens[tokens.length - 1];
+        if (last && (last.kind === 'star' || last.kind === 'globstar')) {
+          if (kind === 'globstar') last.kind = 'globstar';
+        } else {
+          tokens.push({ kind });
+        }
+      } else {
+        tokens.push({ kind: 'literal', char: chars[i] });
+      }
+    }
+
+    return tokens;
+  }
+
+  private findNode(key: string): TrieNode | null {
+    let current = this.root;
+
+    for (const char of key) {
+      this.nodeTraversals++;
+      const next = current.children.get(char);
+      if (!next) {
+        return null;
+      }
+      current = next;
+    }
+
+    return current;
+  }
+
+  private collectFrom(node: TrieNode, prefix: string, results: Array<{ key: string; value: any }>, limit: number): void {
+    if (results.length >= limit) {
+      return;
+    }
+    if (node.isEndOfWord) {
+      results.push({ key: prefix, value: node.value });
+    }
+
+    // Visit children in key order so listings come back sorted
+    const chars = Array.from(node.children.keys()).sort();
+    for (const char of chars) {
+      if (results.length >= limit) {
+        return;
+      }
+      this.nodeTraversals++;
+      this.collectFrom(node.children.get(char)!, prefix + char, results, limit);
+    }
+  }
+
+  getStats() {
+    return {
+      accessCount: this.accessCount,
+      avgNodeTraversals: this.totalTraversals / Math.max(this.accessCount, 1),
+      nodes: this.countNodes(),
+      estimatedBytes: this.estimateMemory()
+    };
+  }
+
+  // One object and one Map per character node
+  estimateMemory(): number {
+    let bytes = 0;
+    const visit = (node: TrieNode): void => {
+      bytes += MEMORY.object + 3 * MEMORY.field + MEMORY.mapBase + node.children.size * MEMORY.mapEntry;
+      node.children.forEach(visit);
+    };
+    visit(this.root);
+    return bytes;
+  }
+
+  // Helper method to count total nodes
+  countNodes(): number {
+    return this.countNodesRecursive(this.root);
+  }
+
+  private countNodesRecursive(node: TrieNode): number {
+    let count = 1;
+    for (const child of node.children.values()) {
+      count += this.countNodesRecursive(child);
+    }
+    return count;
+  }
+}
+// Radix (Patricia) Trie Implementation
+export class RadixNode {
+  children: Map<string, RadixNode> = new Map(); // keyed by the first character of the child's label
+  isEndOfWord: boolean = false;
+  value: any = null;
+
+  constructor(public label: string = '') {}
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  const limit = Math.min(a.length, b.length);
+  let i = 0;
+  while (i < limit && a[i] === b[i]) i++;
+  return i;
+}
+
+export class RadixTree {
+  private root: RadixNode = new RadixNode();
+  public accessCount = 0;
+  public nodeTraversals = 0;
+  private totalTraversals = 0;
+
+  insert(key: string, value: any): void {
+    let node = this.root;
+    let rest = key;
+
+    for (;;) {
+      if (rest.length === 0) {
+        node.isEndOfWord = true;
+        node.value = value;
+        return;
+      }
+
+      const child = node.children.get(rest[0]);
+      if (!child) {
+        const leaf = new RadixNode(rest);
+        leaf.isEndOfWord = true;
+        leaf.value = value;
+        node.children.set(rest[0], leaf);
+        return;
+      }
+
+      const shared = commonPrefixLength(rest, child.label);
+      if (shared < child.label.length) {
+        // Split the edge: the shared part becomes a new inner node above the old child
+        const split = new RadixNode(child.label.slice(0, shared));
+        child.label = child.label.slice(shared);
+        split.children.set(child.label[0], child);
+        node.children.set(split.label[0], split);
+        node = split;
+      } else {
+        node = child;
+      }
+      rest = rest.slice(shared);
+    }
+  }
+
+  // Follows compressed edges; returns the node whose path spells exactly `key`
+  private findNode(key: string): RadixNode | null {
+    let node = this.root;
+    let rest = key;
+
+    while (rest.length > 0) {
+      const child = node.children.get(rest[0]);
+      this.nodeTraversals++;
+      if (!child || !rest.startsWith(child.label)) {
+        return null;
+      }
+      rest = rest.slice(child.label.length);
+      node = child;
+    }
+
+    return node;
+  }
+
+  search(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+
+    const node = this.findNode(key);
+    const found = node !== null && node.isEndOfWord;
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+
+    return {
+      value: found ? node!.value : null,
+      found,
+      nodeTraversals: this.nodeTraversals,
+      latency: endTime - startTime
+    };
+  }
+
+  update(key: string, value: any): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+
+    const node = this.findNode(key);
+    const found = node !== null && node.isEndOfWord;
+    const previous = found ? node!.value : null;
+    if (found) {
+      node!.value = value;
+    }
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+
+    return {
+      value: previous,
+      found,
+      nodeTraversals: this.nodeTraversals,
+      latency: endTime - startTime
+    };
+  }
+
+  delete(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+
+    const path: Array<{ parent: RadixNode; node: RadixNode }> = [];
+    let node = this.root;
+    let rest = key;
+    let found = true;
+
+    while (rest.length > 0) {
+      const child = node.children.get(rest[0]);
+      this.nodeTraversals++;
+      if (!child || !rest.startsWith(child.label)) {
+        found = false;
+        break;
+      }
+      path.push({ parent: node, node: child });
+      rest = rest.slice(child.label.length);
+      node = child;
+    }
+
+    let removed: any | null = null;
+    if (found && node.isEndOfWord && path.length > 0) {
+      removed = node.value;
+      node.isEndOfWord = false;
+      node.value = null;
+
+      const { parent } = path[path.length - 1];
+      if (node.children.size === 0) {
+        parent.children.delete(node.label[0]);
+        // The parent may now be a valueless pass-through node
+        if (path.length > 1 && !parent.isEndOfWord && parent.children.size === 1) {
+          this.mergeWithOnlyChild(parent);
+        }
+      } else if (node.children.size === 1) {
+        this.mergeWithOnlyChild(node);
+      }
+    }
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+
+    return {
+      value: removed,
+      found: removed !== null,
+      nodeTraversals: this.nodeTraversals,
+      latency: endTime - startTime
+    };
+  }
+
+  // Re-compress a node that no longer stores a value and has a single child
+  private mergeWithOnlyChild(node: RadixNode): void {
+    const [child] = node.children.values();
+    node.label += child.label;
+    node.children = child.children;
+    node.isEndOfWord = child.isEndOfWord;
+    node.value = child.value;
+  }
+
+  keysWithPrefix(prefix: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+
+    const results: Array<{ key: string; value: any }> = [];
+    let node = this.root;
+    let path = '';
+    let rest = prefix;
+
+    // The prefix may end part-way along an edge, in which case that whole subtree matches
+    while (rest.length > 0) {
+      const child = node.children.get(rest[0]);
+      this.nodeTraversals++;
+      if (!child) {
+        break;
+      }
+      const shared = commonPrefixLength(rest, child.label);
+      if (shared < Math.min(rest.length, child.label.length)) {
+        break;
+      }
+      path += child.label;
+      rest = rest.slice(shared);
+      node = child;
+    }
+
+    if (rest.length === 0) {
+      this.collect(node, path, results);
+    }
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+
+    return {
+      results,
+      count: results.length,
+      nodeTraversals: this.nodeTraversals,
+      latency: endTime - startTime
+    };
+  }
+
+  private collect(node: RadixNode, path: string, results: Array<{ key: string; value: any }>): void {
+    if (node.isEndOfWord) {
+      results.push({ key: path, value: node.value });
+    }
+
+    const firstChars = Array.from(node.children.keys()).sort();
+    for (const char of firstChars) {
+      const child = node.children.get(char)!;
+      this.nodeTraversals++;
+      this.collect(child, path + child.label, results);
+    }
+  }
+
+  getStats() {
+    return {
+      accessCount: this.accessCount,
+      avgNodeTraversals: this.totalTraversals / Math.max(this.accessCount, 1),
+      nodes: this.countNodes(),
+      estimatedBytes: this.estimateMemory()
+    };
+  }
+
+  // Like the trie, plus the compressed edge label on each node
+  estimateMemory(): number {
+    let bytes = 0;
+    const visit = (node: RadixNode): void => {
+      bytes += MEMORY.object + 4 * MEMORY.field + MEMORY.mapBase + node.children.size * MEMORY.mapEntry;
+      bytes += stringBytes(node.label);
+      node.children.forEach(visit);
+    };
+    visit(this.root);
+    return bytes;
+  }
+
+  countNodes(): number {
+    let count = 0;
+    const visit = (node: RadixNode): void => {
+      count++;
+      node.children.forEach(visit);
+    };
+    visit(this.root);
+    return count;
+  }
+}
+
+// Adaptive Radix Tree Implementation (Leis et al.): byte-wise radix tree whose inner nodes
+// switch between 4, 16, 48 and 256 child layouts as they fill up
+const textEncoder = new TextEncoder();
+
+// Keys are UTF-8 plus a 0 terminator so no key is a byte prefix of another
+function artKeyBytes(key: string): Uint8Array {
+  const encoded = textEncoder.encode(key);
+  const bytes = new Uint8Array(encoded.length + 1);
+  bytes.set(encoded);
+  return bytes;
+}
+
+export type ARTNodeType = 4 | 16 | 48 | 256;
+
+export class ARTLeaf {
+  constructor(
+    public key: string,
+    public bytes: Uint8Array,
+    public value: any
+  ) {}
+}
+
+export class ARTInnerNode {
+  type: ARTNodeType = 4;
+  count = 0;
+  keys: number[] = []; // Node4/Node16: sorted key bytes, parallel to children
+  children: Array<ARTNode | null> = []; // Node48: 48 slots; Node256: indexed by byte
+  childIndex: Uint8Array | null = null; // Node48: byte -> slot + 1
+
+  constructor(public prefix: number[] = []) {}
+
+  findChild(byte: number): ARTNode | null {
+    switch (this.type) {
+      case 4:
+      case 16: {
+        const position = this.keys.indexOf(byte);
+        return position >= 0 ? this.children[position] : null;
+      }
+      case 48: {
+        const slot = this.childIndex![byte];
+        return slot > 0 ? this.children[slot - 1] : null;
+      }
+      case 256:
+        return this.children[byte];
+    }
+  }
+
+  setChild(byte: number, child: ARTNode): void {
+    switch (this.type) {
+      case 4:
+      case 16: {
+        const position = this.keys.indexOf(byte);
+        if (position >= 0) {
+          this.children[position] = child;
+          return;
+        }
+        if (this.count === this.type) {
+          this.grow();
+          this.setChild(byte, child);
+          return;
+        }
+        let insertAt = 0;
+        while (insertAt < this.keys.length && this.keys[insertAt] < byte) insertAt++;
+        this.keys.splice(insertAt, 0, byte);
+        this.children.splice(insertAt, 0, child);
+        this.count++;
+        return;
+      }
+      case 48: {
+        const slot = this.childIndex![byte];
+        if (slot > 0) {
+          this.children[slot - 1] = child;
+          return;
+        }
+        if (this.count === 48) {
+          this.grow();
+          this.setChild(byte, child);
+          return;
+        }
+        const free = this.children.indexOf(null);
+        this.children[free] = child;
+        this.childIndex![byte] = free + 1;
+        this.count++;
+        return;
+      }
+      case 256:
+        if (this.children[byte] === null) this.count++;
+        this.children[byte] = child;
+        return;
+    }
+  }
+
+  removeChild(byte: number): void {
+    switch (this.type) {
+      case 4:
+      case 16: {
+        const position = this.keys.indexOf(byte);
+        if (position < 0) return;
+        this.keys.splice(position, 1);
+        this.children.splice(position, 1);
+        break;
+      }
+      case 48: {
+        const slot = this.childIndex![byte];
+        if (slot === 0) return;
+        this.children[slot - 1] = null;
+        this.childIndex![byte] = 0;
+        break;
+      }
+      case 256:
+        if (this.children[byte] === null) return;
+        this.children[byte] = null;
+        break;
+    }
+    this.count--;
+    this.shrinkIfSparse();
+  }
+
+  // Children in byte order
+  entries(): Array<[number, ARTNode]> {
+    const result: Array<[number, ARTNode]> = [];
+    if (this.type === 4 || this.type === 16) {
+      this.keys.forEach((byte, i) => result.push([byte, this.children[i]!]));
+    } else {
+      for (let byte = 0; byte < 256; byte++) {
+        const child = this.findChild(byte);
+        if (child) result.push([byte, child]);
+      }
+    }
+    return result;
+  }
+
+  private relayout(type: ARTNodeType): void {
+    const entries = this.entries();
+    this.type = type;
+    this.count = 0;
+    this.keys = [];
+    this.childIndex = type === 48 ? new Uint8Array(256) : null;
+    this.children = type === 48 ? new Array(48).fill(null) : type === 256 ? new Array(256).fill(null) : [];
+    for (const [byte, child] of entries) {
+      this.setChild(byte, child);
+    }
+  }
+
+  private grow(): void {
+    this.relayout(this.type === 4 ? 16 : this.type === 16 ? 48 : 256);
+  }
+
+  // Hysteresis below each capacity so a node on the boundary doesn't flip layouts every operation
+  private shrinkIfSparse(): void {
+    if (this.type === 256 && this.count <= 37) this.relayout(48);
+    else if (this.type === 48 && this.count <= 12) this.relayout(16);
+    else if (this.type === 16 && this.count <= 3) this.relayout(4);
+  }
+}
+
+export type ARTNode = ARTLeaf | ARTInnerNode;
+
+export class AdaptiveRadixTree {
+  private root: ARTNode | null = null;
+  public accessCount = 0;
+  public nodeTraversals = 0;
+  private totalTraversals = 0;
+
+  insert(key: string, value: any): void {
+    this.root = this.insertAt(this.root, artKeyBytes(key), key, value, 0);
+  }
+
+  private insertAt(node: ARTNode | null, bytes: Uint8Array, key: string, value: any, depth: number): ARTNode {
+    if (node === null) {
+      return new ARTLeaf(key, bytes, value);
+    }
+
+    if (node instanceof ARTLeaf) {
+      if (node.key === key) {
+        node.value = value;
+        return node;
+      }
+      // Two leaves share bytes up to the first difference; that run becomes the new node's prefix
+      let shared = 0;
+      while (node.bytes[depth + shared] === bytes[depth + shared]) shared++;
+      const inner = new ARTInnerNode(Array.from(bytes.subarray(depth, depth + shared)));
+      inner.setChild(node.bytes[depth + shared], node);
+      inner.setChild(bytes[depth + shared], new ARTLeaf(key, bytes, value));
+      return inner;
+    }
+
+    let matched = 0;
+    while (matched < node.prefix.length && node.prefix[matched] === bytes[depth + matched]) matched++;
+    if (matched < node.prefix.length) {
+      // The key diverges inside this node's prefix: split the prefix
+      const split = new ARTInnerNode(node.prefix.slice(0, matched));
+      split.setChild(node.prefix[matched], node);
+      node.prefix = node.prefix.slice(matched + 1);
+      split.setChild(bytes[depth + matched], new ARTLeaf(key, bytes, value));
+      return split;
+    }
+
+    depth += node.prefix.length;
+    const child = node.findChild(bytes[depth]);
+    node.setChild(bytes[depth], this.insertAt(child, bytes, key, value, depth + 1));
+    return node;
+  }
+
+  private findLeaf(key: string): ARTLeaf | null {
+    const bytes = artKeyBytes(key);
+    let node = this.root;
+    let depth = 0;
+
+    while (node !== null) {
+      this.nodeTraversals++;
+      if (node instanceof ARTLeaf) {
+        return node.key === key ? node : null;
+      }
+      for (let i = 0; i < node.prefix.length; i++) {
+        if (node.prefix[i] !== bytes[depth + i]) {
+          return null;
+        }
+      }
+      depth += node.prefix.length;
+      node = node.findChild(bytes[depth]);
+      depth++;
+    }
+
+    return null;
+  }
+
+  search(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+
+    const leaf = this.findLeaf(key);
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+
+    return {
+      value: leaf ? leaf.value : null,
+      found: leaf !== null,
+      nodeTraversals: this.nodeTraversals,
+      latency: endTime - startTime
+    };
+  }
+
+  update(key: string, value: any): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+
+    const leaf = this.findLeaf(key);
+    const previous = leaf ? leaf.value : null;
+    if (leaf) {
+      leaf.value = value;
+    }
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+
+    return {
+      value: previous,
+      found: leaf !== null,
+      nodeTraversals: this.nodeTraversals,
+      latency: endTime - startTime
+    };
+  }
+
+  delete(key: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+
+    let removed: ARTLeaf | null = null;
+    this.root = this.deleteAt(this.root, artKeyBytes(key), key, 0, (leaf) => {
+      removed = leaf;
+    });
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+
+    return {
+      value: removed ? (removed as ARTLeaf).value : null,
+      found: removed !== null,
+      nodeTraversals: this.nodeTraversals,
+      latency: endTime - startTime
+    };
+  }
+
+  private deleteAt(
+    node: ARTNode | null,
+    bytes: Uint8Array,
+    key: string,
+    depth: number,
+    onRemove: (leaf: ARTLeaf) => void
+  ): ARTNode | null {
+    if (node === null) {
+      return null;
+    }
+    this.nodeTraversals++;
+
+    if (node instanceof ARTLeaf) {
+      if (node.key !== key) {
+        return node;
+      }
+      onRemove(node);
+      return null;
+    }
+
+    for (let i = 0; i < node.prefix.length; i++) {
+      if (node.prefix[i] !== bytes[depth + i]) {
+        return node;
+      }
+    }
+    depth += node.prefix.length;
+
+    const byte = bytes[depth];
+    const child = node.findChild(byte);
+    if (child === null) {
+      return node;
+    }
+    const replacement = this.deleteAt(child, bytes, key, depth + 1, onRemove);
+    if (replacement === null) {
+      node.removeChild(byte);
+    } else if (replacement !== child) {
+      node.setChild(byte, replacement);
+    }
+
+    // Collapse a node left with one child into that child, folding prefixes together
+    if (node.count === 1) {
+      const [[onlyByte, onlyChild]] = node.entries();
+      if (onlyChild instanceof ARTLeaf) {
+        return onlyChild;
+      }
+      onlyChild.prefix = [...node.prefix, onlyByte, ...onlyChild.prefix];
+      return onlyChild;
+    }
+    return node;
+  }
+
+  keysWithPrefix(prefix: string): any {
+    const startTime = performance.now();
+    this.accessCount++;
+    this.nodeTraversals = 0;
+
+    const target = textEncoder.encode(prefix);
+    const results: Array<{ key: string; value: any }> = [];
+    let node = this.root;
+    let depth = 0;
+
+    // Descend until the prefix is used up; everything below that point matches
+    while (node !== null && depth < target.length) {
+      this.nodeTraversals++;
+      if (node instanceof ARTLeaf) {
+        break;
+      }
+      let i = 0;
+      while (i < node.prefix.length && depth + i < target.length) {
+        if (node.prefix[i] !== target[depth + i]) {
+          node = null;
+          break;
+        }
+        i++;
+      }
+      if (node === null || depth + i >= target.length) {
+        break;
+      }
+      depth += node.prefix.length;
+      node = node.findChild(target[depth]);
+      depth++;
+    }
+
+    if (node !== null) {
+      this.collect(node, prefix, results);
+    }
+    this.totalTraversals += this.nodeTraversals;
+    const endTime = performance.now();
+
+    return {
+      results,
+      count: results.length,
+      nodeTraversals: this.nodeTraversals,
+      latency: endTime - startTime
+    };
+  }
+
+  private collect(node: ARTNode, prefix: string, results: Array<{ key: string; value: any }>): void {
+    if (node instanceof ARTLeaf) {
+      if (node.key.startsWith(prefix)) {
+        results.push({ key: node.key, value: node.value });
+      }
+      return;
+    }
+    for (const [, child] of node.entries()) {
+      this.nodeTraversals++;
+      this.collect(child, prefix, results);
+    }
+  }
+
+  private forEachNode(visit: (node: ARTNode) => void): void {
+    const walk = (node: ARTNode): void => {
+      visit(node);
+      if (node instanceof ARTInnerNode) {
+        node.entries().forEach(([, child]) => walk(child));
+      }
+    };
+    if (this.root) walk(this.root);
+  }
+
+  getStats() {
+    const nodeTypes = { node4: 0, node16: 0, node48: 0, node256: 0, leaves: 0 };
+    this.forEachNode(node => {
+      if (node instanceof ARTLeaf) nodeTypes.leaves++;
+      else nodeTypes[`node${node.type}` as 'node4' | 'node16' | 'node48' | 'node256']++;
+    });
+
+    return {
+      accessCount: this.accessCount,
+      avgNodeTraversals: this.totalTraversals / Math.max(this.accessCount, 1),
+      nodes: nodeTypes.node4 + nodeTypes.node16 + nodeTypes.node48 + nodeTypes.node256 + nodeTypes.leaves,
+      ...nodeTypes,
+      estimatedBytes: this.estimateMemory()
+    };
+  }
+
+  // Inner nodes use the paper's fixed layouts: key bytes plus child pointers, or a
+  // 256-byte index for Node48; leaves hold the key bytes and a value pointer
+  estimateMemory(): number {
+    const layoutBytes: Record<ARTNodeType, number> = {
+      4: 4 + 4 * MEMORY.field,
+      16: 16 + 16 * MEMORY.field,
+      48: 256 + 48 * MEMORY.field,
+      256: 256 * MEMORY.field
+    };
+    let bytes = 0;
+    this.forEachNode(node => {
+      if (node instanceof ARTLeaf) {
+        bytes += MEMORY.object + 2 * MEMORY.field + MEMORY.arrayBase + node.bytes.length;
+      } else {
+        bytes += MEMORY.object + 2 * MEMORY.field + MEMORY.arrayBase + node.prefix.length + layoutBytes[node.type];
+      }
+    });
+    return bytes;
+  }
+}
+
+// B-Tree Implementations
+// Simulated cost (ms) of reading one index block, e.g. through the cache hierarchy
+export type BlockReader = (blockId: number) => number;
+
+// Index of the first key >= key
+function lowerBound(keys: string[], key: string): number {
+  let lo = 0;
+  let hi = keys.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (keys[mid] < key) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+export class BTreeNode {
+  keys: string[] = [];
+  values: any[] = [];
+  children: BTreeNode[] = []; // empty for leaves
+
+  constructor(public id: number) {}
+
+  get isLeaf(): boolean {
+    return this.children.length === 0;
+  }
+}
+
+// Classic B-tree: every node holds keys and values. `order` is the maximum fan-out,
+// so a node holds at most order - 1 keys and each node stands for one disk block.
+export class BTree {
+  private root: BTreeNode;
+  private nextId = 0;
+  private blockReader: BlockReader | null = null;
+  private blockLatency = 0;
+  public accessCount = 0;
+  public nodeReads = 0;
+  private totalNodeReads = 0;
+
+  constructor(private order: number = 64) {
+    if (order < 3) {
+      throw new Error(`B-tree order must be at least 3, got ${order}`);
+    }
+    this.root = new BTreeNode(this.nextId++);
+  }
+
+  setBlockReader(reader: BlockReader | null): void {
+    this.blockReader = reader;
+  }
+
+  private readNode(node: BTreeNode): void {
+    this.nodeReads++;
+    if (this.blockReader) {
+      this.blockLatency += this.blockReader(node.id);
+    }
+  }
+
+  private beginOperation(): number {
+    this.accessCount++;
+    this.nodeReads = 0;
+    this.blockLatency = 0;
+    return performance.now();
+  }
+
+  private endOperation(startTime: number): number {
+    this.totalNodeReads += this.nodeReads;
+    return performance.now() - startTime + this.blockLatency;
+  }
+
+  insert(key: string, value: any): void {
+    const split = this.insertInto(this.root, key, value);
+    if (split) {
+      const newRoot = new BTreeNode(this.nextId++);
+      newRoot.keys = [split.key];
+      newRoot.values = [split.value];
+      newRoot.children = [this.root, split.right];
+      this.root = newRoot;
+    }
+  }
+
+  // Returns the median and new right sibling when the node overflowed
+  private insertInto(node: BTreeNode, key: string, value: any): { key: string; value: any; right: BTreeNode } | null {
+    const index = lowerBound(node.keys, key);
+    if (node.keys[index] === key) {
+      node.values[index] = value;
+      return null;
+    }
+
+    if (node.isLeaf) {
+      node.keys.splice(index, 0, key);
+      node.values.splice(index, 0, value);
+    } else {
+      const split = this.insertInto(node.children[index], key, value);
+      if (!split) return null;
+      node.keys.splice(index, 0, split.key);
+      node.values.splice(index, 0, split.value);
+      node.children.splice(index + 1, 0, split.right);
+    }
+
+    if (node.keys.length < this.order) {
+      return null;
+    }
+
+    const mid = Math.floor(node.keys.length / 2);
+    const right = new BTreeNode(this.nextId++);
+    right.keys = node.keys.splice(mid + 1);
+    right.values = node.values.splice(mid + 1);
+    if (!node.isLeaf) {
+      right.children = node.children.splice(mid + 1);
+    }
+    const medianKey = node.keys.pop()!;
+    const medianValue = node.values.pop();
+    return { key: medianKey, value: medianValue, right };
+  }
+
+  private findNode(key: string): { node: BTreeNode; index: number } | null {
+    let node = this.root;
+    for (;;) {
+      this.readNode(node);
+      const index = lowerBound(node.keys, key);
+      if (node.keys[index] === key) {
+        return { node, index };
+      }
+      if (node.isLeaf) {
+        return null;
+      }
+      node = node.children[index];
+    }
+  }
+
+  search(key: string): any {
+    const startTime = this.beginOperation();
+    const location = this.findNode(key);
+    const latency = this.endOperation(startTime);
+
+    return {
+      value: location ? location.node.values[location.index] : null,
+      found: location !== null,
+      nodeReads: this.nodeReads,
+      latency
+    };
+  }
+
+  update(key: string, value: any): any {
+    const startTime = this.beginOperation();
+    const location = this.findNode(key);
+    const previous = location ? location.node.values[location.index] : null;
+    if (location) {
+      location.node.values[location.index] = value;
+    }
+    const latency = this.endOperation(startTime);
+
+    return {
+      value: previous,
+      found: location !== null,
+      nodeReads: this.nodeReads,
+      latency
+    };
+  }
+
+  delete(key: string): any {
+    const startTime = this.beginOperation();
+    const removed = this.deleteFrom(this.root, key);
+    // A merge can empty the root; its only child becomes the new root
+    if (this.root.keys.length === 0 && !this.root.isLeaf) {
+      this.root = this.root.children[0];
+    }
+    const latency = this.endOperation(startTime);
+
+    return {
+      value: removed ? removed.value : null,
+      found: removed !== null,
+      nodeReads: this.nodeReads,
+      latency
+    };
+  }
+
+  // Fewest keys a non-root node may hold
+  private get minKeys(): number {
+    return Math.ceil(this.order / 2) - 1;
+  }
+
+  private deleteFrom(node: BTreeNode, key: string): { value: any } | null {
+    this.readNode(node);
+    const index = lowerBound(node.keys, key);
+    const here = node.keys[index] === key;
+
+    if (node.isLeaf) {
+      if (!here) return null;
+      node.keys.splice(index, 1);
+      return { value: node.values.splice(index, 1)[0] };
+    }
+
+    let removed: { value: any } | null;
+    if (here) {
+      // Inner entry: replace it with its in-order predecessor, taken from the left subtree
+      removed = { value: node.values[index] };
+      const predecessor = this.removeMax(node.children[index]);
+      node.keys[index] = predecessor.key;
+      node.values[index] = predecessor.value;
+    } else {
+      removed = this.deleteFrom(node.children[index], key);
+    }
+
+    if (removed) {
+      this.refill(node, index);
+    }
+    return removed;
+  }
+
+  private removeMax(node: BTreeNode): { key: string; value: any } {
+    this.readNode(node);
+    if (node.isLeaf) {
+      return { key: node.keys.pop()!, value: node.values.pop() };
+    }
+    const last = node.children.length - 1;
+    const entry = this.removeMax(node.children[last]);
+    this.refill(node, last);
+    return entry;
+  }
+
+  // Child `index` may have dropped below the minimum: rotate a key through the parent
+  // from a sibling with keys to spare, otherwise merge it with a sibling
+  private refill(parent: BTreeNode, index: number): void {
+    const child = parent.children[index];
+    if (child.keys.length >= this.minKeys) return;
+
+    const left = index > 0 ? parent.children[index - 1] : null;
+    if (left) {
+      this.readNode(left);
+      if (left.keys.length > this.minKeys) {
+        child.keys.unshift(parent.keys[index - 1]);
+        child.values.unshift(parent.values[index - 1]);
+        parent.keys[index - 1] = left.keys.pop()!;
+        parent.values[index - 1] = left.values.pop();
+        if (!left.isLeaf) {
+          child.children.unshift(left.children.pop()!);
+        }
+        return;
+      }
+    }
+
+    const right = index < parent.children.length - 1 ? parent.children[index + 1] : null;
+    if (right) {
+      this.readNode(right);
+      if (right.keys.length > this.minKeys) {
+        child.keys.push(parent.keys[index]);
+        child.values.push(parent.values[index]);
+        parent.keys[index] = right.keys.shift()!;
+        parent.values[index] = right.values.shift();
+        if (!right.isLeaf) {
+          child.children.push(right.children.shift()!);
+        }
+        return;
+      }
+    }
+
+    // Merge with a sibling, pulling the separating entry down between them
+    const at = left ? index - 1 : index;
+    const target = parent.children[at];
+    const source = parent.children[at + 1];
+    target.keys.push(parent.keys[at], ...source.keys);
+    target.values.push(parent.values[at], ...source.values);
+    target.children.push(...source.children);
+    parent.keys.splice(at, 1);
+    parent.values.splice(at, 1);
+    parent.children.splice(at + 1, 1);
+  }
+
+  range(lo: string, hi: string): any {
+    const startTime = this.beginOperation();
+
+    const results: Array<{ key: string; value: any }> = [];
+    const visit = (node: BTreeNode): void => {
+      this.readNode(node);
+      const start = lowerBound(node.keys, lo);
+      for (let i = start; i <= node.keys.length; i++) {
+        // Child i holds the keys between keys[i - 1] and keys[i]
+        if (!node.isLeaf) {
+          visit(node.children[i]);
+        }
+        if (i === node.keys.length || node.keys[i] > hi) {
+          return;
+        }
+        results.push({ key: node.keys[i], value: node.values[i] });
+      }
+    };
+    visit(this.root);
+    const latency = this.endOperation(startTime);
+
+    return {
+      results,
+      count: results.length,
+      nodeReads: this.nodeReads,
+      latency
+    };
+  }
+
+  keysWithPrefix(prefix: string): any {
+    return this.range(prefix, prefix + '\uffff');
+  }
+
+  getStats() {
+    let nodes = 0;
+    let height = 0;
+    const visit = (node: BTreeNode, depth: number): void => {
+      nodes++;
+      height = Math.max(height, depth);
+      node.children.forEach(child => visit(child, depth + 1));
+    };
+    visit(this.root, 1);
+
+    return {
+      accessCount: this.accessCount,
+      order: this.order,
+      height,
+      nodes,
+      avgNodeReads: this.totalNodeReads / Math.max(this.accessCount, 1),
+      estimatedBytes: this.estimateMemory()
+    };
+  }
+
+  // Per node: the object, its three arrays and a key string per entry
+  estimateMemory(): number {
+    let bytes = 0;
+    const visit = (node: BTreeNode): void => {
+      bytes += MEMORY.object + 4 * MEMORY.field + 3 * MEMORY.arrayBase;
+      bytes += (node.keys.length + node.values.length + node.children.length) * MEMORY.field;
+      node.keys.forEach(key => { bytes += stringBytes(key); });
+      node.children.forEach(visit);
+    };
+    visit(this.root);
+    return bytes;
+  }
+}
+
+export class BPlusTreeNode {
+  keys: string[] = [];
+  values: any[] = []; // leaves only
+  children: BPlusTreeNode[] = []; // inner nodes only
+  next: BPlusTreeNode | null = null; // leaf chain for range scans
+
+  constructor(public id: number, public isLeaf: boolean) {}
+}
+
+// B+-tree: values live only in leaves, inner nodes hold separator keys, and leaves are
+// chained so range scans walk sideways instead of back up the tree
+export class BPlusTree {
+  private root: BPlusTreeNode;
+  private nextId = 0;
+  private blockReader: BlockReader | null = null;
+  private blockLatency = 0;
+  public accessCount = 0;
+  public nodeReads = 0;
+  public leafReads = 0;
+  private totalNodeReads = 0;
+
+  constructor(private order: number = 64) {
+    if (order < 3) {
+      throw new Error(`B+-tree order must be at least 3, got ${order}`);
+    }
+    this.root = new BPlusTreeNode(this.nextId++, true);
+  }
+
+  setBlockReader(reader: BlockReader | null): void {
+    this.blockReader = reader;
+  }
+
+  private readNode(node: BPlusTreeNode): void {
+    this.nodeReads++;
+    if (node.isLeaf) {
+      this.leafReads++;
+    }
+    if (this.blockReader) {
+      this.blockLatency += this.blockReader(node.id);
+    }
+  }
+
+  private beginOperation(): number {
+    this.accessCount++;
+    this.nodeReads = 0;
+    this.leafReads = 0;
+    this.blockLatency = 0;
+    return performance.now();
+  }
+
+  private endOperation(startTime: number): number {
+    this.totalNodeReads += this.nodeReads;
+    return performance.now() - startTime + this.blockLatency;
+  }
+
+  insert(key: string, value: any): void {
+    const split = this.insertInto(this.root, key, value);
+    if (split) {
+      const newRoot = new BPlusTreeNode(this.nextId++, false);
+      newRoot.keys = [split.key];
+      newRoot.children = [this.root, split.right];
+      this.root = newRoot;
+    }
+  }
+
+  // Returns the separator and new right sibling when the node overflowed
+  private insertInto(node: BPlusTreeNode, key: string, value: any): { key: string; right: BPlusTreeNode } | null {
+    if (node.isLeaf) {
+      const index = lowerBound(node.keys, key);
+      if (node.keys[index] === key) {
+        node.values[index] = value;
+        return null;
+      }
+      node.keys.splice(index, 0, key);
+      node.values.splice(index, 0, value);
+      if (node.keys.length < this.order) {
+        return null;
+      }
+
+      // Leaf split: the right half's first key is copied up as the separator
+      const right = new BPlusTreeNode(this.nextId++, true);
+      const mid = Math.floor(node.keys.length / 2);
+      right.keys = node.keys.splice(mid);
+      right.values = node.values.splice(mid);
+      right.next = node.next;
+      node.next = right;
+      return { key: right.keys[0], right };
+    }
+
+    const index = this.childIndex(node, key);
+    const split = this.insertInto(node.children[index], key, value);
+    if (!split) return null;
+    node.keys.splice(index, 0, split.key);
+    node.children.splice(index + 1, 0, split.right);
+    if (node.children.length <= this.order) {
+      return null;
+    }
+
+    // Inner split: the median separator moves up rather than being copied
+    const right = new BPlusTreeNode(this.nextId++, false);
+    const mid = Math.floor(node.keys.length / 2);
+    const separator = node.keys[mid];
+    right.keys = node.keys.splice(mid + 1);
+    right.children = node.children.splice(mid + 1);
+    node.keys.pop();
+    return { key: separator, right };
+  }
+
+  // Keys equal to a separator live in the right subtree
+  private childIndex(node: BPlusTreeNode, key: string): number {
+    const index = lowerBound(node.keys, key);
+    return node.keys[index] === key ? index + 1 : index;
+  }
+
+  private findLeaf(key: string): BPlusTreeNode {
+    let node = this.root;
+    this.readNode(node);
+    while (!node.isLeaf) {
+      node = node.children[this.childIndex(node, key)];
+      this.readNode(node);
+    }
+    return node;
+  }
+
+  search(key: string): any {
+    const startTime = this.beginOperation();
+    const leaf = this.findLeaf(key);
+    const index = lowerBound(leaf.keys, key);
+    const found = leaf.keys[index] === key;
+    const latency = this.endOperation(startTime);
+
+    return {
+      value: found ? leaf.values[index] : null,
+      found,
+      nodeReads: this.nodeReads,
+      latency
+    };
+  }
+
+  update(key: string, value: any): any {
+    const startTime = this.beginOperation();
+    const leaf = this.findLeaf(key);
+    const index = lowerBound(leaf.keys, key);
+    const found = leaf.keys[index] === key;
+    const previous = found ? leaf.values[index] : null;
+    if (found) {
+      leaf.values[index] = value;
+    }
+    const latency = this.endOperation(startTime);
+
+    return {
+      value: previous,
+      found,
+      nodeReads: this.nodeReads,
+      latency
+    };
+  }
+
+  delete(key: string): any {
+    const startTime = this.beginOperation();
+    const removed = this.deleteFrom(this.root, key);
+    // A merge can leave the root with a single child, which takes its place
+    if (!this.root.isLeaf && this.root.children.length === 1) {
+      this.root = this.root.children[0];
+    }
+    const latency = this.endOperation(startTime);
+
+    return {
+      value: removed ? removed.value : null,
+      found: removed !== null,
+      nodeReads: this.nodeReads,
+      latency
+    };
+  }
+
+  // Separators of removed keys stay behind in inner nodes; they still route correctly
+  private deleteFrom(node: BPlusTreeNode, key: string): { value: any } | null {
+    this.readNode(node);
+    if (node.isLeaf) {
+      const index = lowerBound(node.keys, key);
+      if (node.keys[index] !== key) return null;
+      node.keys.splice(index, 1);
+      return { value: node.values.splice(index, 1)[0] };
+    }
+
+    const index = this.childIndex(node, key);
+    const removed = this.deleteFrom(node.children[index], key);
+    if (removed) {
+      this.refill(node, index);
+    }
+    return removed;
+  }
+
+  // Fewest keys a non-root node may hold; the split points in insertInto never go below these
+  private minKeys(node: BPlusTreeNode): number {
+    return node.isLeaf ? Math.floor(this.order / 2) : Math.ceil(this.order / 2) - 1;
+  }
+
+  // Child `index` may have dropped below the minimum: borrow from a sibling with keys to spare
+  // (leaves move an entry and refresh the separator, inner nodes rotate through the parent),
+  // otherwise merge it with a sibling
+  private refill(parent: BPlusTreeNode, index: number): void {
+    const child = parent.children[index];
+    const minimum = this.minKeys(child);
+    if (child.keys.length >= minimum) return;
+
+    const left = index > 0 ? parent.children[index - 1] : null;
+    if (left) {
+      this.readNode(left);
+      if (left.keys.length > minimum) {
+        if (child.isLeaf) {
+          child.keys.unshift(left.keys.pop()!);
+          child.values.unshift(left.values.pop());
+          parent.keys[index - 1] = child.keys[0];
+        } else {
+          child.keys.unshift(parent.keys[index - 1]);
+          parent.keys[index - 1] = left.keys.pop()!;
+          child.children.unshift(left.children.pop()!);
+        }
+        return;
+      }
+    }
+
+    const right = index < parent.children.length - 1 ? parent.children[index + 1] : null;
+    if (right) {
+      this.readNode(right);
+      if (right.keys.length > minimum) {
+        if (child.isLeaf) {
+          child.keys.push(right.keys.shift()!);
+          child.values.push(right.values.shift());
+          parent.keys[index] = right.keys[0];
+        } else {
+          child.keys.push(parent.keys[index]);
+          parent.keys[index] = right.keys.shift()!;
+          child.children.push(right.children.shift()!);
+        }
+        return;
+      }
+    }
+
+    const at = left ? index - 1 : index;
+    const target = parent.children[at];
+    const source = parent.children[at + 1];
+    if (target.isLeaf) {
+      target.keys.push(...source.keys);
+      target.values.push(...source.values);
+      target.next = source.next;
+    } else {
+      target.keys.push(parent.keys[at], ...source.keys);
+      target.children.push(...source.children);
+    }
+    parent.keys.splice(at, 1);
+    parent.children.splice(at + 1, 1);
+  }
+
+  // Descend once to the first leaf, then follow the leaf chain
+  range(lo: string, hi: string): any {
+    const startTime = this.beginOperation();
+
+    const results: Array<{ key: string; value: any }> = [];
+    let leaf: BPlusTreeNode | null = this.findLeaf(lo);
+    let index = lowerBound(leaf.keys, lo);
+    scan: while (leaf) {
+      for (; index < leaf.keys.length; index++) {
+        if (leaf.keys[index] > hi) break scan;
+        results.push({ key: leaf.keys[index], value: leaf.values[index] });
+      }
+      leaf = leaf.next;
+      index = 0;
+      if (leaf) this.readNode(leaf);
+    }
+    const latency = this.endOperation(startTime);
+
+    return {
+      results,
+      count: results.length,
+      nodeReads: this.nodeReads,
+      leafReads: this.leafReads,
+      latency
+    };
+  }
+
+  keysWithPrefix(prefix: string): any {
+    return this.range(prefix, prefix + '\uffff');
+  }
+
+  getStats() {
+    let nodes = 0;
+    let leaves = 0;
+    let height = 0;
+    const visit = (node: BPlusTreeNode, depth: number): void => {
+      nodes++;
+      if (node.isLeaf) leaves++;
+      height = Math.max(height, depth);
+      node.children.forEach(child => visit(child, depth + 1));
+    };
+    visit(this.root, 1);
+
+    return {
+      accessCount: this.accessCount,
+      order: this.order,
+      height,
+      nodes,
+      leaves,
+      avgNodeReads: this.totalNodeReads / Math.max(this.accessCount, 1),
+      estimatedBytes: this.estimateMemory()
+    };
+  }
+
+  // Key strings are counted in the leaves only: separators point at the same strings
+  estimateMemory(): number {
+    let bytes = 0;
+    const visit = (node: BPlusTreeNode): void => {
+      bytes += MEMORY.object + 6 * MEMORY.field + 3 * MEMORY.arrayBase;
+      bytes += (node.keys.length + node.values.length + node.children.length) * MEMORY.field;
+      if (node.isLeaf) {
+        node.keys.forEach(key => { bytes += stringBytes(key); });
+      }
+      node.children.forEach(visit);
+    };
+    visit(this.root);
+    return bytes;
+  }
+}
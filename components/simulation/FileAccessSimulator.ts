@@ -1,9 +1,74 @@
-import { BinarySearchTree, HashTable, Trie } from './DataStructures';
-import { MultiLevelCache } from './CacheSimulator';
-
-export type StructureType = 'BST' | 'Hash' | 'Trie';
+import { HashTableOptions } from './DataStructures';
+import { HashFunctionType, HASH_FUNCTIONS, HashDistributionReport, analyzeHashDistribution, createHashFunction } from './HashFunctions';
+import { StructureType, SearchStructure, LookupResult, PrefixResult, StructureOptions, createStructure, getStructureIds } from './StructureRegistry';
+import { SeededRandom, DEFAULT_SEED, RANDOM_STREAMS, normalizeSeed } from './Random';
+import { WorkloadDistributionType, WorkloadDistributionOptions, createWorkloadDistribution } from './WorkloadDistributions';
+import { ImportedTrace } from './TraceImport';
+import { MultiLevelCache, CacheHierarchyConfig, DEFAULT_CACHE_HIERARCHY, BeladyOptimalCache, OptimalTraceEntry, ReuseDistanceAnalyzer, ReuseDistanceProfile, keyToAddress } from './CacheSimulator';
+
+export type { StructureType } from './StructureRegistry';
 export type WorkloadSize = 'Small' | 'Medium' | 'Large';
 
+export type OperationType = 'lookup' | 'stat' | 'write' | 'create' | 'delete' | 'rename' | 'list' | 'prefix';
+
+export const OPERATION_TYPES: OperationType[] = ['lookup', 'stat', 'write', 'create', 'delete', 'rename', 'list', 'prefix'];
+
+// Relative weights; types left out never occur
+export type OperationMix = Partial<Record<OperationType, number>>;
+
+export const OPERATION_MIX_PRESETS: Record<string, OperationMix> = {
+  'Read only': { lookup: 1 },
+  'Read mostly': { lookup: 0.9, write: 0.1 },
+  'Read / write': { lookup: 0.7, write: 0.3 },
+  'Metadata heavy': { lookup: 0.3, stat: 0.5, list: 0.2 },
+  'File churn': { lookup: 0.7, create: 0.1, delete: 0.1, list: 0.1 },
+  // Grows the file set during the run, so growing structures resize (hash table rehash pauses) mid-run
+  'Create heavy': { lookup: 0.5, create: 0.5 },
+  'Renames': { lookup: 0.7, rename: 0.2, list: 0.1 },
+  'Autocomplete': { lookup: 0.6, prefix: 0.3, list: 0.1 }
+};
+
+// Generated timestamps count from here rather than the wall clock, so seeded runs match exactly
+export const SIMULATION_EPOCH = Date.UTC(2024, 0, 1);
+
+const EXTENSIONS = ['.txt', '.pdf', '.doc', '.jpg', '.png', '.mp4', '.exe', '.zip'];
+const DIRECTORIES = ['Documents', 'Pictures', 'Videos', 'Downloads', 'System', 'Program Files'];
+const BASE_NAMES = [
+  'report', 'presentation', 'image', 'video', 'backup', 'config', 'data', 'log',
+  'temp', 'cache', 'index', 'main', 'test', 'demo', 'sample', 'archive'
+];
+
+export interface FileOperation {
+  type: OperationType;
+  path: string; // the directory for listings, the queried prefix for prefix operations
+  newPath?: string; // rename target
+  record?: FileRecord; // new contents for writes, the new file for creates and renames
+}
+
+// Per operation type: how often it ran, how often the cache answered, and what it cost
+export interface OperationBreakdown {
+  type: OperationType;
+  count: number;
+  hitRate: number;
+  avgLatency: number;
+  avgCost: number; // in the structure's cost unit; cache hits, and write-back writes that hit, cost nothing
+}
+
+interface OperationOutcome {
+  hit: boolean;
+  level: string; // cache level that answered, or the backing store's name on a miss
+  latency: number;
+  cost: number;
+}
+
+// One executed operation and how it went, for auditing a run or diffing two runs
+export interface OperationRecord extends OperationOutcome {
+  index: number; // position in the run's operation stream
+  type: OperationType;
+  path: string;
+  newPath?: string;
+}
+
 export interface FileRecord {
   filename: string;
   path: string;
@@ -20,61 +85,109 @@ export interface SimulationResult {
   maxLatency: number;
   minLatency: number;
   throughput: number;
+  optimalHitRate: number;
+  referenceHitRate: number; // hits over every key the cache was asked for, index blocks included
+  optimalGap: number; // percentage points between OPT and referenceHitRate over the same references
+  reuseProfile: ReuseDistanceProfile | null;
+  seed: number; // replaying with this seed and the same settings reproduces the run
+  distribution: WorkloadDistributionType;
+  trace: string | null; // name of the replayed trace; null for generated workloads
+  operationBreakdown: OperationBreakdown[];
+  operationLog: OperationRecord[] | null; // every executed operation, when recording was enabled
+  estimatedMemory: number; // modeled bytes of the structure after the run
   cacheStats: any;
   operationsPerformed: number;
   totalTime: number;
 }
 
 export class FileAccessSimulator {
-  private bst: BinarySearchTree;
-  private hashTable: HashTable;
-  private trie: Trie;
+  private structures: Map<StructureType, SearchStructure> = new Map();
+  private structureOptions: StructureOptions = { bTreeOrder: 64, seed: DEFAULT_SEED };
+  private indexBlockCaching: boolean = false;
   private cache: MultiLevelCache;
   private fileRecords: FileRecord[] = [];
+  private fileOffsets: Map<string, number> = new Map(); // simulated on-disk byte offset per path
   private isRunning: boolean = false;
-
-  constructor() {
-    this.bst = new BinarySearchTree();
-    this.hashTable = new HashTable(1000);
-    this.trie = new Trie();
-    this.cache = new MultiLevelCache();
+  private operationMix: OperationMix = { lookup: 1 };
+  private distribution: WorkloadDistributionType = 'Pareto';
+  private distributionOptions: WorkloadDistributionOptions = {};
+  private trace: ImportedTrace | null = null; // replayed instead of generated operations when set
+  private recording: boolean = false;
+  // Keys the cache saw during the current run, in order, with the invalidations between them;
+  // the OPT baseline replays these
+  private references: OptimalTraceEntry[] = [];
+  private referenceCount: number = 0;
+  private referenceHits: number = 0;
+  private seed: number;
+  private random: SeededRandom; // operation stream; restarted at the beginning of every run
+  private typoRandom: SeededRandom;
+
+  constructor(cacheConfig: CacheHierarchyConfig = DEFAULT_CACHE_HIERARCHY, seed: number = DEFAULT_SEED) {
+    this.seed = normalizeSeed(seed);
+    this.random = new SeededRandom(this.seed, RANDOM_STREAMS.operations);
+    this.typoRandom = new SeededRandom(this.seed, RANDOM_STREAMS.typos);
+    this.structureOptions = { ...this.structureOptions, seed: this.seed };
+    this.cache = new MultiLevelCache(cacheConfig, this.seed);
     
-    this.generateFileRecords();
-    this.populateDataStructures();
+    this.reloadFileSet();
+    this.cache.setAddressResolver(path => this.fileOffsets.get(path) ?? keyToAddress(path));
   }
 
-  private generateFileRecords(): void {
-    const extensions = ['.txt', '.pdf', '.doc', '.jpg', '.png', '.mp4', '.exe', '.zip'];
-    const directories = ['Documents', 'Pictures', 'Videos', 'Downloads', 'System', 'Program Files'];
-    const baseNames = [
-      'report', 'presentation', 'image', 'video', 'backup', 'config', 'data', 'log',
-      'temp', 'cache', 'index', 'main', 'test', 'demo', 'sample', 'archive'
-    ];
+  private generateFileRecords(): FileRecord[] {
+    // A loaded trace brings its own file set
+    if (this.trace) {
+      return this.trace.records.slice();
+    }
+
+    const random = new SeededRandom(this.seed, RANDOM_STREAMS.files);
+    const records: FileRecord[] = [];
 
     // Generate 10000 file records
     for (let i = 0; i < 10000; i++) {
-      const baseName = baseNames[Math.floor(Math.random() * baseNames.length)];
-      const extension = extensions[Math.floor(Math.random() * extensions.length)];
-      const directory = directories[Math.floor(Math.random() * directories.length)];
-      const filename = `${baseName}_${i}${extension}`;
-      
-      this.fileRecords.push({
-        filename,
-        path: `/${directory}/${filename}`,
-        size: Math.floor(Math.random() * 1000000) + 1024, // 1KB to 1MB
-        extension,
-        lastModified: new Date(Date.now() - Math.random() * 365 * 24 * 60 * 60 * 1000)
-      });
+      records.push(this.makeFileRecord(i, random));
     }
+    return records;
+  }
+
+  // Without a timestamp the file is backdated by up to a year
+  private makeFileRecord(id: number, random: SeededRandom, lastModified?: Date): FileRecord {
+    const baseName = random.pick(BASE_NAMES);
+    const extension = random.pick(EXTENSIONS);
+    const directory = random.pick(DIRECTORIES);
+    const filename = `${baseName}_${id}${extension}`;
+
+    return {
+      filename,
+      path: `/${directory}/${filename}`,
+      size: random.nextInt(1000000) + 1024, // 1KB to 1MB
+      extension,
+      lastModified: lastModified ?? new Date(SIMULATION_EPOCH - random.next() * 365 * 24 * 60 * 60 * 1000)
+    };
   }
 
-  private populateDataStructures(): void {
+  // Same directory, base name and extension under a fresh id
+  private renamedFileRecord(file: FileRecord, id: number, lastModified: Date): FileRecord {
+    const baseName = file.filename.slice(0, file.filename.lastIndexOf('_'));
+    const filename = `${baseName}_${id}${file.extension}`;
+    return { ...file, filename, path: this.directoryOf(file) + filename, lastModified };
+  }
+
+  // Returns each file's simulated on-disk offset
+  private populateDataStructures(records: FileRecord[], structures: Map<StructureType, SearchStructure>): Map<string, number> {
+    // Lay files out back to back so set-associative levels can index by offset
+    const offsets: Map<string, number> = new Map();
+    let offset = 0;
+
     // Populate all data structures with file records
-    for (const record of this.fileRecords) {
-      this.bst.insert(record.path, record);
-      this.hashTable.insert(record.path, record);
-      this.trie.insert(record.path, record);
+    for (const record of records) {
+      offsets.set(record.path, offset);
+      offset += record.size;
+
+      for (const structure of structures.values()) {
+        structure.insert(record.path, record);
+      }
     }
+    return offsets;
   }
 
   async runSimulation(
@@ -84,37 +197,39 @@ export class FileAccessSimulator {
   ): Promise<SimulationResult> {
     this.isRunning = true;
     this.cache.reset();
-
-    const operationCount = this.getOperationCount(workloadSize);
-    const operations: string[] = this.generateOperations(operationCount);
-    const latencies: number[] = [];
+    this.random = new SeededRandom(this.seed, RANDOM_STREAMS.operations);
+    this.restoreStructure(structure);
+    this.references = [];
+    this.referenceCount = 0;
+    this.referenceHits = 0;
+
+    const operations: FileOperation[] = this.trace
+      ? this.trace.operations
+      : this.generateOperations(this.getOperationCount(workloadSize));
+    // Running totals; long trace replays are too big to spread into Math.max or re-sum per update
+    let totalLatency = 0;
+    let maxLatency = 0;
+    let minLatency = Infinity;
+    const outcomes: OperationOutcome[] = [];
+    const operationLog: OperationRecord[] | null = this.recording ? [] : null;
     
     let hits = 0;
     let misses = 0;
     const startTime = performance.now();
 
     for (let i = 0; i < operations.length && this.isRunning; i++) {
-      const operation = operations[i];
+      const outcome = await this.executeOperation(structure, operations[i]);
       
-      // First check cache
-      const cacheResult = this.cache.get(operation);
-      
-      if (cacheResult.hit) {
+      if (outcome.hit) {
         hits++;
-        latencies.push(cacheResult.totalLatency);
       } else {
-        // Cache miss - search in data structure
-        const structureResult = await this.searchInStructure(structure, operation);
         misses++;
-        
-        if (structureResult.found) {
-          // Add to cache
-          this.cache.put(operation, structureResult.value);
-        }
-        
-        const totalLatency = cacheResult.totalLatency + structureResult.latency;
-        latencies.push(totalLatency);
       }
+      totalLatency += outcome.latency;
+      maxLatency = Math.max(maxLatency, outcome.latency);
+      minLatency = Math.min(minLatency, outcome.latency);
+      outcomes.push(outcome);
+      operationLog?.push(this.toOperationRecord(i, operations[i], outcome));
 
       // Simulate some processing time
       if (i % 100 === 0) {
@@ -125,21 +240,55 @@ export class FileAccessSimulator {
     const endTime = performance.now();
     const totalTime = endTime - startTime;
     const totalOperations = hits + misses;
+    const hitRate = totalOperations > 0 ? (hits / totalOperations) * 100 : 0;
+    const trace = operations.slice(0, totalOperations).map(operation => operation.path);
+    const optimalHitRate = this.computeOptimalHitRate(this.references);
+    const referenceHitRate = this.referenceCount > 0 ? (this.referenceHits / this.referenceCount) * 100 : 0;
 
     return {
       structure,
-      hitRate: totalOperations > 0 ? (hits / totalOperations) * 100 : 0,
+      hitRate,
       missRate: totalOperations > 0 ? (misses / totalOperations) * 100 : 0,
-      avgLatency: latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : 0,
-      maxLatency: latencies.length > 0 ? Math.max(...latencies) : 0,
-      minLatency: latencies.length > 0 ? Math.min(...latencies) : 0,
+      avgLatency: totalOperations > 0 ? totalLatency / totalOperations : 0,
+      maxLatency,
+      minLatency: totalOperations > 0 ? minLatency : 0,
       throughput: totalTime > 0 ? (totalOperations / totalTime) * 1000 : 0, // operations per second
+      optimalHitRate,
+      referenceHitRate,
+      optimalGap: optimalHitRate - referenceHitRate,
+      reuseProfile: new ReuseDistanceAnalyzer().analyze(trace),
+      seed: this.seed,
+      distribution: this.distribution,
+      trace: this.trace?.name ?? null,
+      operationBreakdown: this.breakdownByType(operations, outcomes),
+      operationLog,
+      estimatedMemory: this.getStructure(structure).estimateMemory(),
       cacheStats: this.cache.getOverallStats(),
       operationsPerformed: totalOperations,
       totalTime
     };
   }
 
+  // Replay the keys the cache actually saw (file paths, listings and, with node caching,
+  // index blocks) and the invalidations it was forced to apply through an offline OPT cache of the same size
+  private computeOptimalHitRate(references: OptimalTraceEntry[]): number {
+    const optimal = new BeladyOptimalCache(this.cache.getEffectiveCapacity());
+    return optimal.simulate(references).hitRate;
+  }
+
+  private recordReference(key: string, hit: boolean): void {
+    this.references.push(key);
+    this.referenceCount++;
+    if (hit) {
+      this.referenceHits++;
+    }
+  }
+
+  private invalidateInCache(key: string): { found: boolean; level: string; totalLatency: number } {
+    this.references.push({ invalidate: key });
+    return this.cache.invalidate(key);
+  }
+
   private getOperationCount(workloadSize: WorkloadSize): number {
     switch (workloadSize) {
       case 'Small': return 1000;
@@ -149,38 +298,300 @@ export class FileAccessSimulator {
     }
   }
 
-  private generateOperations(count: number): string[] {
-    const operations: string[] = [];
-    
-    // Generate operations with some files being accessed more frequently (80/20 rule)
-    const popularFiles = this.fileRecords.slice(0, Math.floor(this.fileRecords.length * 0.2));
-    const regularFiles = this.fileRecords.slice(Math.floor(this.fileRecords.length * 0.2));
+  private generateOperations(count: number): FileOperation[] {
+    const operations: FileOperation[] = [];
+    const distribution = createWorkloadDistribution(
+      this.distribution,
+      this.fileRecords.length,
+      this.random.source(),
+      this.distributionOptions
+    );
+
+    // Slots are popularity ranks: the distribution picks a slot, and deletes, creates and renames
+    // change which file occupies it. Deleted slots are refilled by later creates, oldest first.
+    const slots = this.fileRecords.slice();
+    const deleted: boolean[] = new Array(slots.length).fill(false);
+    const freeSlots: number[] = [];
+    let nextFileId = this.fileRecords.length;
 
     for (let i = 0; i < count; i++) {
-      if (Math.random() < 0.8) {
-        // 80% chance to access popular files
-        const file = popularFiles[Math.floor(Math.random() * popularFiles.length)];
-        operations.push(file.path);
-      } else {
-        // 20% chance to access other files
-        const file = regularFiles[Math.floor(Math.random() * regularFiles.length)];
-        operations.push(file.path);
+      const type = this.pickOperationType();
+      const lastModified = new Date(SIMULATION_EPOCH + i * 1000); // one simulated second per operation
+
+      if (type === 'create') {
+        const record = this.makeFileRecord(nextFileId++, this.random, lastModified);
+        if (freeSlots.length > 0) {
+          const slot = freeSlots.shift()!;
+          slots[slot] = record;
+          deleted[slot] = false;
+        }
+        operations.push({ type, path: record.path, record });
+        continue;
+      }
+
+      const slot = distribution.next();
+      const file = slots[slot];
+
+      // Changing a file that is already gone fails while resolving its path
+      if (deleted[slot] && (type === 'write' || type === 'delete' || type === 'rename')) {
+        operations.push({ type: 'lookup', path: file.path });
+        continue;
+      }
+
+      switch (type) {
+        case 'write':
+          operations.push({ type, path: file.path, record: { ...file, lastModified } });
+          break;
+        case 'delete':
+          deleted[slot] = true;
+          freeSlots.push(slot);
+          operations.push({ type, path: file.path });
+          break;
+        case 'rename': {
+          const renamed = this.renamedFileRecord(file, nextFileId++, lastModified);
+          slots[slot] = renamed;
+          operations.push({ type, path: file.path, newPath: renamed.path, record: renamed });
+          break;
+        }
+        case 'list':
+          operations.push({ type, path: this.directoryOf(file) });
+          break;
+        case 'prefix':
+          operations.push({ type, path: this.prefixFor(file) });
+          break;
+        default:
+          operations.push({ type, path: file.path });
       }
     }
 
     return operations;
   }
 
-  private async searchInStructure(structure: StructureType, key: string): Promise<any> {
-    switch (structure) {
-      case 'BST':
-        return this.bst.search(key);
-      case 'Hash':
-        return this.hashTable.search(key);
-      case 'Trie':
-        return this.trie.search(key);
+  private pickOperationType(): OperationType {
+    const weights = OPERATION_TYPES.map(type => this.operationMix[type] ?? 0);
+    let target = this.random.next() * weights.reduce((sum, weight) => sum + weight, 0);
+    for (let i = 0; i < OPERATION_TYPES.length; i++) {
+      target -= weights[i];
+      if (target < 0) {
+        return OPERATION_TYPES[i];
+      }
+    }
+    return 'lookup';
+  }
+
+  private directoryOf(file: FileRecord): string {
+    return file.path.slice(0, file.path.length - file.filename.length);
+  }
+
+  // Autocomplete: the file's directory plus the first few letters of its name
+  private prefixFor(file: FileRecord): string {
+    return this.directoryOf(file) + file.filename.slice(0, 1 + this.random.nextInt(3));
+  }
+
+  // Cache keys of every listing or prefix query whose result includes the path
+  private listingKeys(path: string): string[] {
+    const split = path.lastIndexOf('/') + 1;
+    const directory = path.slice(0, split);
+    const filename = path.slice(split);
+    return [directory, ...[1, 2, 3].map(length => directory + filename.slice(0, length))];
+  }
+
+  private invalidateListings(...paths: string[]): number {
+    const keys = new Set(paths.flatMap(path => this.listingKeys(path)));
+    let latency = 0;
+    for (const key of keys) {
+      latency += this.invalidateInCache(key).totalLatency;
+    }
+    return latency;
+  }
+
+  private async executeOperation(structure: StructureType, operation: FileOperation): Promise<OperationOutcome> {
+    switch (operation.type) {
+      case 'write':
+        return this.executeWrite(structure, operation);
+      case 'create':
+        return this.executeCreate(structure, operation);
+      case 'delete':
+        return this.executeDelete(structure, operation);
+      case 'rename':
+        return this.executeRename(structure, operation);
+      case 'list':
+      case 'prefix':
+        return this.executeListing(structure, operation);
       default:
-        throw new Error(`Unknown structure: ${structure}`);
+        // A stat resolves the path exactly like a lookup; it is counted separately in the breakdown
+        return this.executeLookup(structure, operation);
+    }
+  }
+
+  private async executeLookup(structure: StructureType, operation: FileOperation): Promise<OperationOutcome> {
+    // First check cache
+    const cacheResult = this.cache.get(operation.path);
+    this.recordReference(operation.path, cacheResult.hit);
+
+    if (cacheResult.hit) {
+      return { hit: true, level: cacheResult.level, latency: cacheResult.totalLatency, cost: 0 };
+    }
+
+    const structureResult = await this.searchInStructure(structure, operation.path);
+    let latency = cacheResult.totalLatency + structureResult.latency;
+
+    if (structureResult.found) {
+      // Add to cache, paying for any dirty lines it pushes out
+      latency += this.cache.put(operation.path, structureResult.value);
+    }
+
+    return { hit: false, level: cacheResult.level, latency, cost: structureResult.cost };
+  }
+
+  // Listings and prefix queries are cached whole, like a directory listing
+  private async executeListing(structure: StructureType, operation: FileOperation): Promise<OperationOutcome> {
+    const cacheResult = this.cache.get(operation.path);
+    this.recordReference(operation.path, cacheResult.hit);
+    if (cacheResult.hit) {
+      return { hit: true, level: cacheResult.level, latency: cacheResult.totalLatency, cost: 0 };
+    }
+
+    const prefixResult = await this.prefixQueryInStructure(structure, operation.path);
+    let latency = cacheResult.totalLatency + prefixResult.latency;
+    if (prefixResult.count > 0) {
+      latency += this.cache.put(operation.path, prefixResult.results);
+    }
+    return { hit: false, level: cacheResult.level, latency, cost: prefixResult.cost };
+  }
+
+  private async executeWrite(structure: StructureType, operation: FileOperation): Promise<OperationOutcome> {
+    const writeResult = this.cache.write(operation.path, operation.record);
+    this.recordReference(operation.path, writeResult.hit);
+    let latency = writeResult.totalLatency;
+    let cost = 0;
+
+    // Write-through updates the index on every write; under write-back only a miss does,
+    // since the path has to be resolved before the line can be allocated
+    if (writeResult.reachedBackingStore || !writeResult.hit) {
+      const structureResult = await this.updateInStructure(structure, operation.path, operation.record);
+      latency += structureResult.latency;
+      cost = structureResult.cost;
+    }
+
+    return { hit: writeResult.hit, level: writeResult.level, latency, cost };
+  }
+
+  // Like O_CREAT | O_EXCL: resolve the path first, then link the new entry and cache it.
+  // Inserts report no counters; walking to the insertion point costs what the failed lookup just did.
+  private async executeCreate(structure: StructureType, operation: FileOperation): Promise<OperationOutcome> {
+    const existing = await this.searchInStructure(structure, operation.path);
+    const insertLatency = await this.insertInStructure(structure, operation.path, operation.record);
+    let latency = existing.latency + insertLatency + this.invalidateListings(operation.path);
+    latency += this.cache.put(operation.path, operation.record);
+    this.recordReference(operation.path, false);
+    return { hit: false, level: this.cache.getConfig().backingStore.name, latency, cost: existing.cost * 2 };
+  }
+
+  // Counts as a hit when the cache still held the file
+  private async executeDelete(structure: StructureType, operation: FileOperation): Promise<OperationOutcome> {
+    const structureResult = await this.deleteInStructure(structure, operation.path);
+    const invalidation = this.invalidateInCache(operation.path);
+    const latency = invalidation.totalLatency + structureResult.latency + this.invalidateListings(operation.path);
+    return { hit: invalidation.found, level: invalidation.level, latency, cost: structureResult.cost };
+  }
+
+  private async executeRename(structure: StructureType, operation: FileOperation): Promise<OperationOutcome> {
+    const newPath = operation.newPath!;
+    const structureResult = await this.deleteInStructure(structure, operation.path);
+    // The target is resolved and then linked, costed like a create
+    const target = await this.searchInStructure(structure, newPath);
+    const insertLatency = await this.insertInStructure(structure, newPath, operation.record);
+    const invalidation = this.invalidateInCache(operation.path);
+    const cost = structureResult.cost + target.cost * 2;
+
+    let latency = invalidation.totalLatency + structureResult.latency + target.latency + insertLatency;
+    latency += this.invalidateListings(operation.path, newPath);
+    latency += this.cache.put(newPath, operation.record);
+    this.recordReference(newPath, false);
+    return { hit: invalidation.found, level: invalidation.level, latency, cost };
+  }
+
+  private toOperationRecord(index: number, operation: FileOperation, outcome: OperationOutcome): OperationRecord {
+    const record: OperationRecord = { index, type: operation.type, path: operation.path, ...outcome };
+    if (operation.newPath) {
+      record.newPath = operation.newPath;
+    }
+    return record;
+  }
+
+  private breakdownByType(operations: FileOperation[], outcomes: OperationOutcome[]): OperationBreakdown[] {
+    const totals: Map<OperationType, { count: number; hits: number; latency: number; cost: number }> = new Map();
+    outcomes.forEach((outcome, i) => {
+      const type = operations[i].type;
+      const total = totals.get(type) ?? { count: 0, hits: 0, latency: 0, cost: 0 };
+      total.count++;
+      total.hits += outcome.hit ? 1 : 0;
+      total.latency += outcome.latency;
+      total.cost += outcome.cost;
+      totals.set(type, total);
+    });
+
+    return OPERATION_TYPES
+      .filter(type => totals.has(type))
+      .map(type => {
+        const total = totals.get(type)!;
+        return {
+          type,
+          count: total.count,
+          hitRate: (total.hits / total.count) * 100,
+          avgLatency: total.latency / total.count,
+          avgCost: total.cost / total.count
+        };
+      });
+  }
+
+  private async searchInStructure(structure: StructureType, key: string): Promise<LookupResult> {
+    return this.getStructure(structure).lookup(key);
+  }
+
+  private async prefixQueryInStructure(structure: StructureType, prefix: string): Promise<PrefixResult> {
+    return this.getStructure(structure).prefixQuery(prefix);
+  }
+
+  private async updateInStructure(structure: StructureType, key: string, value: any): Promise<LookupResult> {
+    return this.getStructure(structure).update(key, value);
+  }
+
+  // Inserts report no counters, so only the time is measured
+  private async insertInStructure(structure: StructureType, key: string, value: any): Promise<number> {
+    const startTime = performance.now();
+    this.getStructure(structure).insert(key, value);
+    return performance.now() - startTime;
+  }
+
+  private async deleteInStructure(structure: StructureType, key: string): Promise<LookupResult> {
+    return this.getStructure(structure).delete(key);
+  }
+
+  // Rebuild the structure before every run: creates, deletes and renames change its file set,
+  // and self-adjusting structures (splay trees) reshape themselves on plain lookups
+  private restoreStructure(structure: StructureType): void {
+    this.rebuildStructures([structure]);
+    this.setIndexBlockCaching(this.indexBlockCaching);
+  }
+
+  private getStructure(id: StructureType): SearchStructure {
+    const structure = this.structures.get(id);
+    if (!structure) {
+      throw new Error(`Unknown structure: ${id}`);
+    }
+    return structure;
+  }
+
+  // Recreate structures from the registry with the current options and reload the file records
+  private rebuildStructures(ids: StructureType[]): void {
+    for (const id of ids) {
+      const structure = createStructure(id, this.structureOptions);
+      for (const record of this.fileRecords) {
+        structure.insert(record.path, record);
+      }
+      this.structures.set(id, structure);
     }
   }
 
@@ -188,12 +599,153 @@ export class FileAccessSimulator {
     this.isRunning = false;
   }
 
-  getDataStructureStats() {
-    return {
-      BST: this.bst.getStats(),
-      Hash: this.hashTable.getStats(),
-      Trie: this.trie.getStats()
-    };
+  getDataStructureStats(): Record<StructureType, any> {
+    const stats: Partial<Record<StructureType, any>> = {};
+    for (const [id, structure] of this.structures) {
+      stats[id] = structure.getStats();
+    }
+    return stats as Record<StructureType, any>;
+  }
+
+  // Rebuild the chained hash table with new resize thresholds / rehash mode
+  setHashTableOptions(options: HashTableOptions): void {
+    this.structureOptions = { ...this.structureOptions, hashTable: options };
+    this.rebuildStructures(['Hash']);
+  }
+
+  // Rebuild both B-trees with a new maximum fan-out
+  setBTreeOrder(order: number): void {
+    if (order === this.structureOptions.bTreeOrder) return;
+    this.structureOptions = { ...this.structureOptions, bTreeOrder: order };
+    this.rebuildStructures(['BTree', 'BPlusTree']);
+    this.setIndexBlockCaching(this.indexBlockCaching);
+  }
+
+  // When enabled, every B-tree node read is a block access through the cache hierarchy,
+  // so upper levels of the tree stay hot while deep leaves pay the backing-store latency
+  setIndexBlockCaching(enabled: boolean): void {
+    this.indexBlockCaching = enabled;
+    for (const [id, structure] of this.structures) {
+      structure.setBlockReader(enabled ? blockId => this.readIndexBlock(id, blockId) : null);
+    }
+  }
+
+  private readIndexBlock(structure: StructureType, blockId: number): number {
+    const key = `block:${structure}:${blockId}`;
+    const result = this.cache.get(key);
+    this.recordReference(key, result.hit);
+    return result.hit ? result.totalLatency : result.totalLatency + this.cache.put(key, blockId);
+  }
+
+  setHashFunction(hashFunction: HashFunctionType): void {
+    const options = this.structureOptions.hashTable ?? {};
+    if (hashFunction === (options.hashFunction ?? 'Java')) return;
+    this.setHashTableOptions({ ...options, hashFunction });
+  }
+
+  // Spread of the loaded file paths under every hash function, at the chained table's current size
+  getHashDistributionReports(): HashDistributionReport[] {
+    const paths = this.fileRecords.map(record => record.path);
+    const buckets = this.getStructure('Hash').getStats().buckets;
+    return HASH_FUNCTIONS.map(type => analyzeHashDistribution(createHashFunction(type), paths, buckets));
+  }
+
+  setCacheHierarchy(config: CacheHierarchyConfig): void {
+    this.cache.configure(config);
+  }
+
+  getCacheHierarchy(): CacheHierarchyConfig {
+    return this.cache.getConfig();
+  }
+
+  // Which files operations touch; options tune the chosen distribution (Zipf alpha, loop length, ...)
+  setWorkloadDistribution(type: WorkloadDistributionType, options: WorkloadDistributionOptions = {}): void {
+    this.distribution = type;
+    this.distributionOptions = options;
+  }
+
+  // Relative weight of each operation type in generated workloads
+  setOperationMix(mix: OperationMix): void {
+    const weights = Object.fromEntries(
+      OPERATION_TYPES.map(type => [type, Math.max(0, mix[type] ?? 0)])
+    ) as Record<OperationType, number>;
+    if (OPERATION_TYPES.every(type => weights[type] === 0)) {
+      throw new Error('Operation mix needs at least one positive weight');
+    }
+    this.operationMix = weights;
+  }
+
+  getOperationMix(): OperationMix {
+    return this.operationMix;
+  }
+
+  // New file set, operation stream and cache jitter; rebuilds every structure, so only call between runs
+  setSeed(seed: number): void {
+    const normalized = normalizeSeed(seed);
+    if (normalized === this.seed) return;
+
+    this.seed = normalized;
+    this.structureOptions = { ...this.structureOptions, seed: normalized };
+    this.typoRandom = new SeededRandom(normalized, RANDOM_STREAMS.typos);
+    this.cache.setSeed(normalized);
+    this.reloadFileSet();
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  // Replay an imported trace, in order, instead of generated operations; the trace's files
+  // replace the generated file set and every structure is rebuilt, so only call between runs
+  loadTrace(trace: ImportedTrace): void {
+    const previous = this.trace;
+    this.trace = trace;
+    try {
+      this.reloadFileSet();
+    } catch (error) {
+      this.trace = previous;
+      throw error;
+    }
+  }
+
+  // Back to the seeded file set and generated workloads
+  clearTrace(): void {
+    if (!this.trace) return;
+    this.trace = null;
+    this.reloadFileSet();
+  }
+
+  getTrace(): ImportedTrace | null {
+    return this.trace;
+  }
+
+  // When enabled, results carry an operationLog with every operation's outcome; costs memory on long runs
+  setRecording(enabled: boolean): void {
+    this.recording = enabled;
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  // Everything is built aside and swapped in only once every structure accepted every file,
+  // so a failure leaves the current file set and structures untouched
+  private reloadFileSet(): void {
+    const records = this.generateFileRecords();
+    const structures: Map<StructureType, SearchStructure> = new Map();
+    for (const id of getStructureIds()) {
+      structures.set(id, createStructure(id, this.structureOptions));
+    }
+    const offsets = this.populateDataStructures(records, structures);
+
+    this.fileRecords = records;
+    this.fileOffsets = offsets;
+    this.structures = structures;
+    this.setIndexBlockCaching(this.indexBlockCaching);
+  }
+
+  flushCache(): { writeBacks: number; latency: number } {
+    return this.cache.flush();
   }
 
   getCacheStats() {
@@ -204,9 +756,49 @@ export class FileAccessSimulator {
     return this.fileRecords.length;
   }
 
+  // Node counts and estimated footprint of the three trie variants over the same paths
+  getTrieFootprints() {
+    const tries: StructureType[] = ['Trie', 'Radix', 'ART'];
+    return tries.map(structure => ({ structure, ...this.getStructure(structure).getStats() }));
+  }
+
+  // "Did you mean": the trie's pruned walk next to the brute-force scans it replaces
+  fuzzyLookup(path: string, maxDistance: number) {
+    return {
+      Trie: this.getStructure('Trie').fuzzySearch(path, maxDistance),
+      BST: this.getStructure('BST').fuzzySearch(path, maxDistance),
+      Hash: this.getStructure('Hash').fuzzySearch(path, maxDistance)
+    };
+  }
+
+  // A real path with one or two random character edits, for demoing fuzzy lookup
+  generateTypoPath(): string {
+    const random = this.typoRandom;
+    const record = random.pick(this.fileRecords);
+    const chars = Array.from(record.path);
+    const edits = 1 + random.nextInt(2);
+    const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+    for (let i = 0; i < edits; i++) {
+      // Leave the leading slash alone so the typo stays path-like
+      const position = 1 + random.nextInt(chars.length - 1);
+      const letter = alphabet[random.nextInt(alphabet.length)];
+      const edit = random.next();
+      if (edit < 0.33) {
+        chars.splice(position, 1);
+      } else if (edit < 0.66) {
+        chars.splice(position, 0, letter);
+      } else {
+        chars[position] = letter;
+      }
+    }
+
+    return chars.join('');
+  }
+
   // Generate comparative data for multiple structures
   async runComparativeSimulation(workloadSize: WorkloadSize): Promise<SimulationResult[]> {
-    const structures: StructureType[] = ['BST', 'Hash', 'Trie'];
+    const structures = getStructureIds();
     const results: SimulationResult[] = [];
 
     for (const structure of structures) {
@@ -229,36 +821,41 @@ export class FileAccessSimulator {
   ): Promise<SimulationResult> {
     this.isRunning = true;
     this.cache.reset();
-
-    const operationCount = this.getOperationCount(workloadSize);
-    const operations: string[] = this.generateOperations(operationCount);
-    const latencies: number[] = [];
+    this.random = new SeededRandom(this.seed, RANDOM_STREAMS.operations);
+    this.restoreStructure(structure);
+    this.references = [];
+    this.referenceCount = 0;
+    this.referenceHits = 0;
+
+    const operations: FileOperation[] = this.trace
+      ? this.trace.operations
+      : this.generateOperations(this.getOperationCount(workloadSize));
+    // Running totals; long trace replays are too big to spread into Math.max or re-sum per update
+    let totalLatency = 0;
+    let maxLatency = 0;
+    let minLatency = Infinity;
+    const outcomes: OperationOutcome[] = [];
+    const operationLog: OperationRecord[] | null = this.recording ? [] : null;
     
     let hits = 0;
     let misses = 0;
+    let windowMaxLatency = 0; // worst operation since the last update, so pauses show up as spikes
     const startTime = performance.now();
 
     for (let i = 0; i < operations.length && this.isRunning; i++) {
-      const operation = operations[i];
-      
-      // First check cache
-      const cacheResult = this.cache.get(operation);
+      const outcome = await this.executeOperation(structure, operations[i]);
       
-      if (cacheResult.hit) {
+      if (outcome.hit) {
         hits++;
-        latencies.push(cacheResult.totalLatency);
       } else {
-        // Cache miss - search in data structure
-        const structureResult = await this.searchInStructure(structure, operation);
         misses++;
-        
-        if (structureResult.found) {
-          this.cache.put(operation, structureResult.value);
-        }
-        
-        const totalLatency = cacheResult.totalLatency + structureResult.latency;
-        latencies.push(totalLatency);
       }
+      totalLatency += outcome.latency;
+      maxLatency = Math.max(maxLatency, outcome.latency);
+      minLatency = Math.min(minLatency, outcome.latency);
+      outcomes.push(outcome);
+      operationLog?.push(this.toOperationRecord(i, operations[i], outcome));
+      windowMaxLatency = Math.max(windowMaxLatency, outcome.latency);
 
       // Update progress periodically
       if (i % updateInterval === 0) {
@@ -270,10 +867,12 @@ export class FileAccessSimulator {
           structure,
           hitRate: totalOperations > 0 ? (hits / totalOperations) * 100 : 0,
           missRate: totalOperations > 0 ? (misses / totalOperations) * 100 : 0,
-          avgLatency: latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : 0,
+          avgLatency: totalOperations > 0 ? totalLatency / totalOperations : 0,
+          maxLatency: windowMaxLatency,
           throughput: (currentTime - startTime) > 0 ? (totalOperations / (currentTime - startTime)) * 1000 : 0,
           operationsPerformed: totalOperations
         });
+        windowMaxLatency = 0;
         
         await new Promise(resolve => setTimeout(resolve, 1));
       }
@@ -282,15 +881,29 @@ export class FileAccessSimulator {
     const endTime = performance.now();
     const totalTime = endTime - startTime;
     const totalOperations = hits + misses;
+    const hitRate = totalOperations > 0 ? (hits / totalOperations) * 100 : 0;
+    const trace = operations.slice(0, totalOperations).map(operation => operation.path);
+    const optimalHitRate = this.computeOptimalHitRate(this.references);
+    const referenceHitRate = this.referenceCount > 0 ? (this.referenceHits / this.referenceCount) * 100 : 0;
 
     return {
       structure,
-      hitRate: totalOperations > 0 ? (hits / totalOperations) * 100 : 0,
+      hitRate,
       missRate: totalOperations > 0 ? (misses / totalOperations) * 100 : 0,
-      avgLatency: latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : 0,
-      maxLatency: latencies.length > 0 ? Math.max(...latencies) : 0,
-      minLatency: latencies.length > 0 ? Math.min(...latencies) : 0,
+      avgLatency: totalOperations > 0 ? totalLatency / totalOperations : 0,
+      maxLatency,
+      minLatency: totalOperations > 0 ? minLatency : 0,
       throughput: totalTime > 0 ? (totalOperations / totalTime) * 1000 : 0,
+      optimalHitRate,
+      referenceHitRate,
+      optimalGap: optimalHitRate - referenceHitRate,
+      reuseProfile: new ReuseDistanceAnalyzer().analyze(trace),
+      seed: this.seed,
+      distribution: this.distribution,
+      trace: this.trace?.name ?? null,
+      operationBreakdown: this.breakdownByType(operations, outcomes),
+      operationLog,
+      estimatedMemory: this.getStructure(structure).estimateMemory(),
       cacheStats: this.cache.getOverallStats(),
       operationsPerformed: totalOperations,
       totalTime
@@ -0,0 +1,284 @@
+export type HashFunctionType = 'Java' | 'FNV-1a' | 'Murmur3' | 'xxHash32' | 'SipHash' | 'Weak';
+
+export const HASH_FUNCTIONS: HashFunctionType[] = ['Java', 'FNV-1a', 'Murmur3', 'xxHash32', 'SipHash', 'Weak'];
+
+// String hash used to pick a bucket; implementations return an unsigned 32-bit integer
+export interface HashFunction {
+  readonly name: HashFunctionType;
+  hash(key: string): number;
+}
+
+const encoder = new TextEncoder();
+
+function rotl32(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits));
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+// Java String.hashCode: h = 31 * h + c
+export class JavaStringHash implements HashFunction {
+  readonly name = 'Java' as const;
+
+  hash(key: string): number {
+    let hash = 0;
+    for (let i = 0; i < key.length; i++) {
+      hash = ((hash << 5) - hash) + key.charCodeAt(i);
+      hash = hash & hash; // Convert to 32-bit integer
+    }
+    return hash >>> 0;
+  }
+}
+
+// FNV-1a (32-bit)
+export class FNV1aHash implements HashFunction {
+  readonly name = 'FNV-1a' as const;
+
+  hash(key: string): number {
+    let hash = 0x811c9dc5;
+    for (const byte of encoder.encode(key)) {
+      hash ^= byte;
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+// MurmurHash3 x86_32
+export class Murmur3Hash implements HashFunction {
+  readonly name = 'Murmur3' as const;
+
+  constructor(private seed: number = 0) {}
+
+  hash(key: string): number {
+    const bytes = encoder.encode(key);
+    const c1 = 0xcc9e2d51;
+    const c2 = 0x1b873593;
+    const blocks = bytes.length >> 2;
+    let hash = this.seed >>> 0;
+
+    for (let i = 0; i < blocks; i++) {
+      let k = readUint32LE(bytes, i * 4);
+      k = Math.imul(k, c1);
+      k = rotl32(k, 15);
+      k = Math.imul(k, c2);
+      hash ^= k;
+      hash = rotl32(hash, 13);
+      hash = (Math.imul(hash, 5) + 0xe6546b64) | 0;
+    }
+
+    const tail = blocks * 4;
+    let k = 0;
+    switch (bytes.length & 3) {
+      case 3:
+        k ^= bytes[tail + 2] << 16;
+      // falls through
+      case 2:
+        k ^= bytes[tail + 1] << 8;
+      // falls through
+      case 1:
+        k ^= bytes[tail];
+        k = Math.imul(k, c1);
+        k = rotl32(k, 15);
+        k = Math.imul(k, c2);
+        hash ^= k;
+    }
+
+    hash ^= bytes.length;
+    hash ^= hash >>> 16;
+    hash = Math.imul(hash, 0x85ebca6b);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, 0xc2b2ae35);
+    hash ^= hash >>> 16;
+    return hash >>> 0;
+  }
+}
+
+// xxHash32
+export class XXHash32 implements HashFunction {
+  readonly name = 'xxHash32' as const;
+  private static readonly PRIME1 = 0x9e3779b1;
+  private static readonly PRIME2 = 0x85ebca77;
+  private static readonly PRIME3 = 0xc2b2ae3d;
+  private static readonly PRIME4 = 0x27d4eb2f;
+  private static readonly PRIME5 = 0x165667b1;
+
+  constructor(private seed: number = 0) {}
+
+  hash(key: string): number {
+    const { PRIME1, PRIME2, PRIME3, PRIME4, PRIME5 } = XXHash32;
+    const bytes = encoder.encode(key);
+    const round = (accumulator: number, lane: number) =>
+      Math.imul(rotl32((accumulator + Math.imul(lane, PRIME2)) | 0, 13), PRIME1);
+    let offset = 0;
+    let hash: number;
+
+    if (bytes.length >= 16) {
+      let v1 = (this.seed + PRIME1 + PRIME2) | 0;
+      let v2 = (this.seed + PRIME2) | 0;
+      let v3 = this.seed | 0;
+      let v4 = (this.seed - PRIME1) | 0;
+      for (; offset + 16 <= bytes.length; offset += 16) {
+        v1 = round(v1, readUint32LE(bytes, offset));
+        v2 = round(v2, readUint32LE(bytes, offset + 4));
+        v3 = round(v3, readUint32LE(bytes, offset + 8));
+        v4 = round(v4, readUint32LE(bytes, offset + 12));
+      }
+      hash = (rotl32(v1, 1) + rotl32(v2, 7) + rotl32(v3, 12) + rotl32(v4, 18)) | 0;
+    } else {
+      hash = (this.seed + PRIME5) | 0;
+    }
+
+    hash = (hash + bytes.length) | 0;
+    for (; offset + 4 <= bytes.length; offset += 4) {
+      hash = Math.imul(rotl32((hash + Math.imul(readUint32LE(bytes, offset), PRIME3)) | 0, 17), PRIME4);
+    }
+    for (; offset < bytes.length; offset++) {
+      hash = Math.imul(rotl32((hash + Math.imul(bytes[offset], PRIME5)) | 0, 11), PRIME1);
+    }
+
+    hash ^= hash >>> 15;
+    hash = Math.imul(hash, PRIME2);
+    hash ^= hash >>> 13;
+    hash = Math.imul(hash, PRIME3);
+    hash ^= hash >>> 16;
+    return hash >>> 0;
+  }
+}
+
+// SipHash-2-4 with a fixed 128-bit key; the 64-bit result is folded to 32 bits
+export class SipHash implements HashFunction {
+  readonly name = 'SipHash' as const;
+  private static readonly MASK = 0xffffffffffffffffn;
+
+  constructor(
+    private k0: bigint = 0x0706050403020100n,
+    private k1: bigint = 0x0f0e0d0c0b0a0908n
+  ) {}
+
+  hash(key: string): number {
+    const digest = this.digest(encoder.encode(key));
+    return Number((digest ^ (digest >> 32n)) & 0xffffffffn);
+  }
+
+  digest(bytes: Uint8Array): bigint {
+    const mask = SipHash.MASK;
+    const rotl = (value: bigint, bits: bigint) => ((value << bits) | (value >> (64n - bits))) & mask;
+    let v0 = this.k0 ^ 0x736f6d6570736575n;
+    let v1 = this.k1 ^ 0x646f72616e646f6dn;
+    let v2 = this.k0 ^ 0x6c7967656e657261n;
+    let v3 = this.k1 ^ 0x7465646279746573n;
+
+    const sipRound = () => {
+      v0 = (v0 + v1) & mask; v1 = rotl(v1, 13n); v1 ^= v0; v0 = rotl(v0, 32n);
+      v2 = (v2 + v3) & mask; v3 = rotl(v3, 16n); v3 ^= v2;
+      v0 = (v0 + v3) & mask; v3 = rotl(v3, 21n); v3 ^= v0;
+      v2 = (v2 + v1) & mask; v1 = rotl(v1, 17n); v1 ^= v2; v2 = rotl(v2, 32n);
+    };
+    const compress = (word: bigint) => {
+      v3 ^= word;
+      sipRound();
+      sipRound();
+      v0 ^= word;
+    };
+
+    const fullBlocks = bytes.length - (bytes.length % 8);
+    for (let offset = 0; offset < fullBlocks; offset += 8) {
+      let word = 0n;
+      for (let i = 7; i >= 0; i--) {
+        word = (word << 8n) | BigInt(bytes[offset + i]);
+      }
+      compress(word);
+    }
+
+    // Final block: remaining bytes plus the message length in the top byte
+    let last = BigInt(bytes.length & 0xff) << 56n;
+    for (let i = bytes.length - 1; i >= fullBlocks; i--) {
+      last |= BigInt(bytes[i]) << BigInt((i - fullBlocks) * 8);
+    }
+    compress(last);
+
+    v2 ^= 0xffn;
+    for (let i = 0; i < 4; i++) {
+      sipRound();
+    }
+    return (v0 ^ v1 ^ v2 ^ v3) & mask;
+  }
+}
+
+// Deliberately weak: adds up character codes, so keys of similar length land in a narrow band
+// of buckets and anagrams (e.g. file_12 / file_21) always collide
+export class WeakHash implements HashFunction {
+  readonly name = 'Weak' as const;
+
+  hash(key: string): number {
+    let sum = 0;
+    for (let i = 0; i < key.length; i++) {
+      sum += key.charCodeAt(i);
+    }
+    return sum >>> 0;
+  }
+}
+
+export function createHashFunction(type: HashFunctionType): HashFunction {
+  switch (type) {
+    case 'Java':
+      return new JavaStringHash();
+    case 'FNV-1a':
+      return new FNV1aHash();
+    case 'Murmur3':
+      return new Murmur3Hash();
+    case 'xxHash32':
+      return new XXHash32();
+    case 'SipHash':
+      return new SipHash();
+    case 'Weak':
+      return new WeakHash();
+    default:
+      throw new Error(`Unknown hash function: ${type}`);
+  }
+}
+
+export interface HashDistributionReport {
+  hashFunction: HashFunctionType;
+  keys: number;
+  buckets: number;
+  chiSquared: number;
+  normalizedChiSquared: number; // chi-squared / degrees of freedom; ~1 for a uniform hash
+  maxBucketLength: number;
+  emptyBuckets: number;
+  bucketLengthHistogram: Array<{ length: number; buckets: number }>; // how many buckets hold N keys
+}
+
+// Bucket the keys with the given function and measure how far the spread is from uniform
+export function analyzeHashDistribution(hashFunction: HashFunction, keys: string[], bucketCount: number): HashDistributionReport {
+  const lengths = new Array(bucketCount).fill(0);
+  for (const key of keys) {
+    lengths[hashFunction.hash(key) % bucketCount]++;
+  }
+
+  const expected = keys.length / bucketCount;
+  let chiSquared = 0;
+  let maxBucketLength = 0;
+  const histogram: Map<number, number> = new Map();
+  for (const length of lengths) {
+    chiSquared += expected > 0 ? ((length - expected) ** 2) / expected : 0;
+    maxBucketLength = Math.max(maxBucketLength, length);
+    histogram.set(length, (histogram.get(length) ?? 0) + 1);
+  }
+
+  return {
+    hashFunction: hashFunction.name,
+    keys: keys.length,
+    buckets: bucketCount,
+    chiSquared,
+    normalizedChiSquared: bucketCount > 1 ? chiSquared / (bucketCount - 1) : 0,
+    maxBucketLength,
+    emptyBuckets: histogram.get(0) ?? 0,
+    bucketLengthHistogram: Array.from(histogram.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([length, buckets]) => ({ length, buckets }))
+  };
+}
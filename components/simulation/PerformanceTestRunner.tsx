@@ -4,6 +4,7 @@ import { Button } from '../ui/button';
 import { Progress } from '../ui/progress';
 import { Badge } from '../ui/badge';
 import { FileAccessSimulator, SimulationResult, StructureType, WorkloadSize } from './FileAccessSimulator';
+import { getStructureDefinition, getStructureIds } from './StructureRegistry';
 import { Play, Square, RotateCcw } from 'lucide-react';
 
 interface PerformanceTestRunnerProps {
@@ -23,7 +24,7 @@ export function PerformanceTestRunner({ onResults }: PerformanceTestRunnerProps)
     setResults([]);
 
     const workloads: WorkloadSize[] = ['Small', 'Medium', 'Large'];
-    const structures: StructureType[] = ['BST', 'Hash', 'Trie'];
+    const structures = getStructureIds();
     const totalTests = workloads.length * structures.length;
     let completedTests = 0;
     const allResults: SimulationResult[] = [];
@@ -69,14 +70,7 @@ export function PerformanceTestRunner({ onResults }: PerformanceTestRunnerProps)
     setCurrentTest('');
   };
 
-  const getStructureColor = (structure: StructureType) => {
-    const colors = {
-      BST: '#22c55e',
-      Hash: '#3b82f6',
-      Trie: '#f97316'
-    };
-    return colors[structure];
-  };
+  const getStructureColor = (structure: StructureType) => getStructureDefinition(structure).color;
 
   return (
     <Card className="p-6 rounded-2xl shadow-lg border-0">
@@ -0,0 +1,85 @@
+// Uniform number in [0, 1); same contract as Math.random, so either can be passed where one is expected
+export type RandomSource = () => number;
+
+export const DEFAULT_SEED = 42;
+
+// Independent sequences drawn from one seed, so e.g. changing the write ratio
+// doesn't also reshuffle file names or cache latencies
+export const RANDOM_STREAMS = {
+  files: 1,
+  operations: 2,
+  cache: 3,
+  structures: 4,
+  typos: 5
+} as const;
+
+function rotl32(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits));
+}
+
+// xoshiro128** seeded through SplitMix32; identical seeds give bit-identical sequences
+export class SeededRandom {
+  readonly seed: number;
+  private s0: number;
+  private s1: number;
+  private s2: number;
+  private s3: number;
+
+  constructor(seed: number = DEFAULT_SEED, stream: number = 0) {
+    this.seed = seed >>> 0;
+    let state = (this.seed ^ Math.imul(stream, 0x9e3779b9)) >>> 0;
+    const splitMix = () => {
+      state = (state + 0x9e3779b9) | 0;
+      let z = state;
+      z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+      z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+      return (z ^ (z >>> 16)) >>> 0;
+    };
+    this.s0 = splitMix();
+    this.s1 = splitMix();
+    this.s2 = splitMix();
+    this.s3 = splitMix();
+  }
+
+  nextUint32(): number {
+    const result = Math.imul(rotl32(Math.imul(this.s1, 5), 7), 9) >>> 0;
+    const t = this.s1 << 9;
+
+    this.s2 ^= this.s0;
+    this.s3 ^= this.s1;
+    this.s1 ^= this.s2;
+    this.s0 ^= this.s3;
+    this.s2 ^= t;
+    this.s3 = rotl32(this.s3, 11);
+
+    return result;
+  }
+
+  next(): number {
+    return this.nextUint32() / 0x100000000;
+  }
+
+  // Integer in [0, bound)
+  nextInt(bound: number): number {
+    return Math.floor(this.next() * bound);
+  }
+
+  pick<T>(items: T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+
+  // Bound method, for APIs that take a RandomSource
+  source(): RandomSource {
+    return () => this.next();
+  }
+}
+
+// Fresh seed for a new run; the only place Math.random is still needed
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+// Accepts any integer the user types; out-of-range values wrap to 32 bits
+export function normalizeSeed(seed: number): number {
+  return Number.isFinite(seed) ? Math.trunc(seed) >>> 0 : DEFAULT_SEED;
+}
@@ -1,13 +1,23 @@
 import { SystemAnalyzer, SystemInfo, RealPerformanceMetrics } from './SystemAnalyzer';
-import { BinarySearchTree, HashTable, Trie } from './DataStructures';
+import { StructureType, SearchStructure, createStructure } from './StructureRegistry';
+import { SeededRandom, DEFAULT_SEED, RANDOM_STREAMS, normalizeSeed } from './Random';
+import { WorkloadDistributionType, WorkloadDistributionOptions, createWorkloadDistribution } from './WorkloadDistributions';
+
+// Structures measured against the real system; the efficiency models below are tuned for these
+export type RealSystemStructure = Extract<StructureType, 'BST' | 'Hash' | 'Trie'>;
+
+const REAL_SYSTEM_STRUCTURES: RealSystemStructure[] = ['BST', 'Hash', 'Trie'];
 
 export interface RealSystemResult {
-  structure: 'BST' | 'Hash' | 'Trie';
+  structure: RealSystemStructure;
   systemInfo: SystemInfo;
   performanceMetrics: RealPerformanceMetrics;
   realLatency: number;
   realThroughput: number;
-  memoryUsage: number;
+  memoryUsage: number; // heap growth while running; Chrome only and noisy
+  estimatedMemory: number; // modeled bytes of the structure
+  seed: number; // seed of the test data and operation stream
+  distribution: WorkloadDistributionType;
   cpuUsage: number;
   cacheEfficiency: number;
   storagePerformance: number;
@@ -16,38 +26,63 @@ export interface RealSystemResult {
 
 export class RealSystemSimulator {
   private systemAnalyzer: SystemAnalyzer;
-  private bst: BinarySearchTree;
-  private hashTable: HashTable;
-  private trie: Trie;
+  private structures: Map<RealSystemStructure, SearchStructure> = new Map();
   private testData: string[] = [];
+  private seed: number;
+  private distribution: WorkloadDistributionType = 'Pareto';
+  private distributionOptions: WorkloadDistributionOptions = {};
+  private random: SeededRandom; // operation stream; restarted for every structure so each sees the same keys
 
-  constructor() {
+  constructor(seed: number = DEFAULT_SEED) {
     this.systemAnalyzer = new SystemAnalyzer();
-    this.bst = new BinarySearchTree();
-    this.hashTable = new HashTable();
-    this.trie = new Trie();
+    this.seed = normalizeSeed(seed);
+    this.random = new SeededRandom(this.seed, RANDOM_STREAMS.operations);
+    this.loadTestData();
+  }
+
+  // Measured timings still vary run to run; the keys and the order they are looked up in do not
+  setSeed(seed: number): void {
+    const normalized = normalizeSeed(seed);
+    if (normalized === this.seed) return;
+    this.seed = normalized;
+    this.loadTestData();
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  setWorkloadDistribution(type: WorkloadDistributionType, options: WorkloadDistributionOptions = {}): void {
+    this.distribution = type;
+    this.distributionOptions = options;
+  }
+
+  private loadTestData(): void {
+    this.testData = [];
+    for (const id of REAL_SYSTEM_STRUCTURES) {
+      this.structures.set(id, createStructure(id, { seed: this.seed }));
+    }
     this.generateTestData();
   }
 
   private generateTestData(): void {
+    const random = new SeededRandom(this.seed, RANDOM_STREAMS.files);
     // Generate realistic file paths and keys
     const directories = ['Documents', 'Pictures', 'Videos', 'Downloads', 'System32', 'ProgramFiles'];
     const extensions = ['.txt', '.pdf', '.doc', '.jpg', '.png', '.mp4', '.exe', '.dll'];
     const baseNames = ['report', 'image', 'video', 'config', 'data', 'cache', 'temp', 'backup'];
 
     for (let i = 0; i < 10000; i++) {
-      const dir = directories[Math.floor(Math.random() * directories.length)];
-      const base = baseNames[Math.floor(Math.random() * baseNames.length)];
-      const ext = extensions[Math.floor(Math.random() * extensions.length)];
+      const dir = random.pick(directories);
+      const base = random.pick(baseNames);
+      const ext = random.pick(extensions);
       this.testData.push(`/${dir}/${base}_${i}${ext}`);
     }
 
     // Populate data structures
     this.testData.forEach((path, index) => {
-      const data = { path, size: Math.random() * 1000000, index };
-      this.bst.insert(path, data);
-      this.hashTable.insert(path, data);
-      this.trie.insert(path, data);
+      const data = { path, size: random.next() * 1000000, index };
+      this.structures.forEach(structure => structure.insert(path, data));
     });
   }
 
@@ -65,7 +100,7 @@ export class RealSystemSimulator {
     // Test each data structure with real system constraints
     const structureResults: RealSystemResult[] = [];
     
-    for (const structure of ['BST', 'Hash', 'Trie'] as const) {
+    for (const structure of REAL_SYSTEM_STRUCTURES) {
       const result = await this.analyzeStructurePerformance(structure, systemInfo, performanceMetrics);
       structureResults.push(result);
     }
@@ -78,7 +113,7 @@ export class RealSystemSimulator {
   }
 
   private async analyzeStructurePerformance(
-    structure: 'BST' | 'Hash' | 'Trie',
+    structure: RealSystemStructure,
     systemInfo: SystemInfo,
     performanceMetrics: RealPerformanceMetrics
   ): Promise<RealSystemResult> {
@@ -86,6 +121,7 @@ export class RealSystemSimulator {
     const startMemory = this.getCurrentMemoryUsage();
     
     // Perform actual operations on the data structure
+    this.random = new SeededRandom(this.seed, RANDOM_STREAMS.operations);
     const operations = this.generateRealisticOperations(1000);
     let successfulOperations = 0;
     const latencies: number[] = [];
@@ -130,6 +166,9 @@ export class RealSystemSimulator {
       realLatency: avgLatency,
       realThroughput: throughput,
       memoryUsage: memoryUsed,
+      estimatedMemory: this.structures.get(structure)!.estimateMemory(),
+      seed: this.seed,
+      distribution: this.distribution,
       cpuUsage,
       cacheEfficiency,
       storagePerformance,
@@ -138,39 +177,24 @@ export class RealSystemSimulator {
   }
 
   private generateRealisticOperations(count: number): string[] {
-    const operations: string[] = [];
-    
-    // 80/20 rule: 80% of operations on 20% of data (hot data)
-    const hotData = this.testData.slice(0, Math.floor(this.testData.length * 0.2));
-    const coldData = this.testData.slice(Math.floor(this.testData.length * 0.2));
+    const distribution = createWorkloadDistribution(
+      this.distribution,
+      this.testData.length,
+      this.random.source(),
+      this.distributionOptions
+    );
 
+    const operations: string[] = [];
     for (let i = 0; i < count; i++) {
-      if (Math.random() < 0.8) {
-        // Hot data access
-        operations.push(hotData[Math.floor(Math.random() * hotData.length)]);
-      } else {
-        // Cold data access
-        operations.push(coldData[Math.floor(Math.random() * coldData.length)]);
-      }
+      operations.push(this.testData[distribution.next()]);
     }
 
     return operations;
   }
 
-  private performOperation(structure: 'BST' | 'Hash' | 'Trie', key: string): { found: boolean; value: any } {
-    switch (structure) {
-      case 'BST':
-        const bstResult = this.bst.search(key);
-        return { found: bstResult.found, value: bstResult.value };
-      case 'Hash':
-        const hashResult = this.hashTable.search(key);
-        return { found: hashResult.found, value: hashResult.value };
-      case 'Trie':
-        const trieResult = this.trie.search(key);
-        return { found: trieResult.found, value: trieResult.value };
-      default:
-        throw new Error(`Unknown structure: ${structure}`);
-    }
+  private performOperation(structure: RealSystemStructure, key: string): { found: boolean; value: any } {
+    const result = this.structures.get(structure)!.lookup(key);
+    return { found: result.found, value: result.value };
   }
 
   private getCurrentMemoryUsage(): number {
@@ -180,7 +204,7 @@ export class RealSystemSimulator {
     return 0;
   }
 
-  private calculateCacheEfficiency(structure: 'BST' | 'Hash' | 'Trie', metrics: RealPerformanceMetrics): number {
+  private calculateCacheEfficiency(structure: RealSystemStructure, metrics: RealPerformanceMetrics): number {
     // Base cache efficiency on memory access patterns and structure characteristics
     const memoryAccessTime = metrics.memoryPerformance.access;
     
@@ -205,7 +229,7 @@ export class RealSystemSimulator {
     return Math.min(95, baseEfficiency * memoryFactor);
   }
 
-  private calculateStoragePerformance(structure: 'BST' | 'Hash' | 'Trie', metrics: RealPerformanceMetrics): number {
+  private calculateStoragePerformance(structure: RealSystemStructure, metrics: RealPerformanceMetrics): number {
     // Factor in storage performance from actual tests
     const storageScore = (
       100 / Math.max(1, metrics.storagePerformance.localStorage) +
@@ -230,7 +254,7 @@ export class RealSystemSimulator {
     return Math.min(100, storageScore * structureFactor);
   }
 
-  private estimateCPUUsage(structure: 'BST' | 'Hash' | 'Trie', metrics: RealPerformanceMetrics, latency: number): number {
+  private estimateCPUUsage(structure: RealSystemStructure, metrics: RealPerformanceMetrics, latency: number): number {
     // Base CPU usage estimation on computation performance and actual latency
     const computationTime = metrics.computationPerformance.singleThread;
     
@@ -257,7 +281,7 @@ export class RealSystemSimulator {
 
   // Real-time monitoring
   async startRealTimeMonitoring(
-    structure: 'BST' | 'Hash' | 'Trie',
+    structure: RealSystemStructure,
     onUpdate: (metrics: Partial<RealSystemResult>) => void,
     intervalMs: number = 1000
   ): Promise<() => void> {
@@ -269,7 +293,7 @@ export class RealSystemSimulator {
         const memoryUsage = this.getCurrentMemoryUsage();
         
         // Perform a small test operation
-        const testKey = this.testData[Math.floor(Math.random() * this.testData.length)];
+        const testKey = this.random.pick(this.testData);
         const opStart = performance.now();
         this.performOperation(structure, testKey);
         const opLatency = performance.now() - opStart;
@@ -0,0 +1,511 @@
+import { RandomSource, SeededRandom } from './Random';
+
+export type ReplacementPolicyType = 'LRU' | 'LFU' | 'FIFO' | 'CLOCK' | 'ARC' | '2Q' | 'Random';
+
+export const REPLACEMENT_POLICIES: ReplacementPolicyType[] = ['LRU', 'LFU', 'FIFO', 'CLOCK', 'ARC', '2Q', 'Random'];
+
+// Bookkeeping contract between a CacheLevel and its eviction strategy.
+// The level owns the entries; the policy only tracks keys.
+export interface ReplacementPolicy {
+  readonly name: ReplacementPolicyType;
+  onInsert(key: string): void;
+  onAccess(key: string): void;
+  onRemove(key: string): void;
+  selectVictim(incomingKey: string): string | null;
+  reset(): void;
+  getStats(): Record<string, number>;
+}
+
+// Map iteration order doubles as a recency list: the first key is the oldest
+function firstKey(map: Map<string, unknown>): string | null {
+  const next = map.keys().next();
+  return next.done ? null : next.value;
+}
+
+// LRU Policy
+export class LRUPolicy implements ReplacementPolicy {
+  readonly name = 'LRU' as const;
+  private order: Map<string, true> = new Map();
+
+  onInsert(key: string): void {
+    this.order.delete(key);
+    this.order.set(key, true);
+  }
+
+  onAccess(key: string): void {
+    this.onInsert(key);
+  }
+
+  onRemove(key: string): void {
+    this.order.delete(key);
+  }
+
+  selectVictim(): string | null {
+    const victim = firstKey(this.order);
+    if (victim !== null) {
+      this.order.delete(victim);
+    }
+    return victim;
+  }
+
+  reset(): void {
+    this.order.clear();
+  }
+
+  getStats() {
+    return {
+      tracked: this.order.size
+    };
+  }
+}
+
+// LFU Policy (ties broken by recency within a frequency)
+export class LFUPolicy implements ReplacementPolicy {
+  readonly name = 'LFU' as const;
+  private frequencies: Map<string, number> = new Map();
+  private buckets: Map<number, Map<string, true>> = new Map();
+  private minFrequency = 0;
+
+  private addToBucket(key: string, frequency: number): void {
+    let bucket = this.buckets.get(frequency);
+    if (!bucket) {
+      bucket = new Map();
+      this.buckets.set(frequency, bucket);
+    }
+    bucket.set(key, true);
+  }
+
+  private removeFromBucket(key: string, frequency: number): void {
+    const bucket = this.buckets.get(frequency);
+    if (!bucket) return;
+
+    bucket.delete(key);
+    if (bucket.size === 0) {
+      this.buckets.delete(frequency);
+      if (this.minFrequency === frequency) {
+        this.minFrequency = this.buckets.size > 0 ? Math.min(...this.buckets.keys()) : 0;
+      }
+    }
+  }
+
+  onInsert(key: string): void {
+    if (this.frequencies.has(key)) {
+      this.onAccess(key);
+      return;
+    }
+    this.frequencies.set(key, 1);
+    this.addToBucket(key, 1);
+    this.minFrequency = 1;
+  }
+
+  onAccess(key: string): void {
+    const frequency = this.frequencies.get(key);
+    if (frequency === undefined) return;
+
+    this.frequencies.set(key, frequency + 1);
+    this.addToBucket(key, frequency + 1);
+    this.removeFromBucket(key, frequency);
+  }
+
+  onRemove(key: string): void {
+    const frequency = this.frequencies.get(key);
+    if (frequency === undefined) return;
+
+    this.frequencies.delete(key);
+    this.removeFromBucket(key, frequency);
+  }
+
+  selectVictim(): string | null {
+    const bucket = this.buckets.get(this.minFrequency);
+    const victim = bucket ? firstKey(bucket) : null;
+    if (victim !== null) {
+      this.onRemove(victim);
+    }
+    return victim;
+  }
+
+  reset(): void {
+    this.frequencies.clear();
+    this.buckets.clear();
+    this.minFrequency = 0;
+  }
+
+  getStats() {
+    let totalFrequency = 0;
+    for (const frequency of this.frequencies.values()) {
+      totalFrequency += frequency;
+    }
+
+    return {
+      tracked: this.frequencies.size,
+      minFrequency: this.minFrequency,
+      avgFrequency: this.frequencies.size > 0 ? totalFrequency / this.frequencies.size : 0
+    };
+  }
+}
+
+// FIFO Policy
+export class FIFOPolicy implements ReplacementPolicy {
+  readonly name = 'FIFO' as const;
+  private queue: Map<string, true> = new Map();
+
+  onInsert(key: string): void {
+    if (!this.queue.has(key)) {
+      this.queue.set(key, true);
+    }
+  }
+
+  onAccess(): void {
+    // Arrival order is all that matters
+  }
+
+  onRemove(key: string): void {
+    this.queue.delete(key);
+  }
+
+  selectVictim(): string | null {
+    const victim = firstKey(this.queue);
+    if (victim !== null) {
+      this.queue.delete(victim);
+    }
+    return victim;
+  }
+
+  reset(): void {
+    this.queue.clear();
+  }
+
+  getStats() {
+    return {
+      tracked: this.queue.size
+    };
+  }
+}
+
+// CLOCK (second chance) Policy
+export class ClockPolicy implements ReplacementPolicy {
+  readonly name = 'CLOCK' as const;
+  private slots: Array<string | null> = [];
+  private referenced: boolean[] = [];
+  private slotOf: Map<string, number> = new Map();
+  private freeSlots: number[] = [];
+  private hand = 0;
+  private secondChances = 0;
+
+  onInsert(key: string): void {
+    if (this.slotOf.has(key)) {
+      this.onAccess(key);
+      return;
+    }
+
+    const slot = this.freeSlots.length > 0 ? this.freeSlots.pop()! : this.slots.length;
+    this.slots[slot] = key;
+    this.referenced[slot] = false;
+    this.slotOf.set(key, slot);
+  }
+
+  onAccess(key: string): void {
+    const slot = this.slotOf.get(key);
+    if (slot !== undefined) {
+      this.referenced[slot] = true;
+    }
+  }
+
+  onRemove(key: string): void {
+    const slot = this.slotOf.get(key);
+    if (slot === undefined) return;
+
+    this.slotOf.delete(key);
+    this.slots[slot] = null;
+    this.referenced[slot] = false;
+    this.freeSlots.push(slot);
+  }
+
+  selectVictim(): string | null {
+    if (this.slotOf.size === 0) return null;
+
+    // Sweep the hand, clearing reference bits until an unreferenced key turns up
+    for (;;) {
+      if (this.hand >= this.slots.length) {
+        this.hand = 0;
+      }
+      const key = this.slots[this.hand];
+
+      if (key !== null && !this.referenced[this.hand]) {
+        this.onRemove(key);
+        this.hand++;
+        return key;
+      }
+      if (key !== null) {
+        this.referenced[this.hand] = false;
+        this.secondChances++;
+      }
+      this.hand++;
+    }
+  }
+
+  reset(): void {
+    this.slots = [];
+    this.referenced = [];
+    this.slotOf.clear();
+    this.freeSlots = [];
+    this.hand = 0;
+    this.secondChances = 0;
+  }
+
+  getStats() {
+    let referencedCount = 0;
+    for (const slot of this.slotOf.values()) {
+      if (this.referenced[slot]) referencedCount++;
+    }
+
+    return {
+      tracked: this.slotOf.size,
+      hand: this.hand,
+      referenced: referencedCount,
+      secondChances: this.secondChances
+    };
+  }
+}
+
+// ARC (Adaptive Replacement Cache) Policy
+export class ARCPolicy implements ReplacementPolicy {
+  readonly name = 'ARC' as const;
+  private t1: Map<string, true> = new Map(); // resident, seen once recently
+  private t2: Map<string, true> = new Map(); // resident, seen at least twice
+  private b1: Map<string, true> = new Map(); // ghosts evicted from T1
+  private b2: Map<string, true> = new Map(); // ghosts evicted from T2
+  private target = 0; // p: preferred size of T1
+  private capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  onInsert(key: string): void {
+    if (this.t1.has(key) || this.t2.has(key)) {
+      this.onAccess(key);
+      return;
+    }
+
+    if (this.b1.has(key)) {
+      // Recency ghost hit: grow T1's share
+      const delta = Math.max(this.b2.size / Math.max(this.b1.size, 1), 1);
+      this.target = Math.min(this.capacity, this.target + delta);
+      this.b1.delete(key);
+      this.t2.set(key, true);
+    } else if (this.b2.has(key)) {
+      // Frequency ghost hit: grow T2's share
+      const delta = Math.max(this.b1.size / Math.max(this.b2.size, 1), 1);
+      this.target = Math.max(0, this.target - delta);
+      this.b2.delete(key);
+      this.t2.set(key, true);
+    } else {
+      this.t1.set(key, true);
+    }
+
+    this.trimGhosts();
+  }
+
+  onAccess(key: string): void {
+    if (this.t1.delete(key) || this.t2.delete(key)) {
+      this.t2.set(key, true);
+    }
+  }
+
+  onRemove(key: string): void {
+    this.t1.delete(key);
+    this.t2.delete(key);
+  }
+
+  selectVictim(incomingKey: string): string | null {
+    const preferT1 = this.t1.size > 0 &&
+      (this.t1.size > this.target || (this.b2.has(incomingKey) && this.t1.size === Math.floor(this.target)));
+    const source = preferT1 || this.t2.size === 0 ? this.t1 : this.t2;
+    const ghosts = source === this.t1 ? this.b1 : this.b2;
+
+    const victim = firstKey(source);
+    if (victim !== null) {
+      source.delete(victim);
+      ghosts.set(victim, true);
+    }
+    return victim;
+  }
+
+  private trimGhosts(): void {
+    while (this.t1.size + this.b1.size > this.capacity && this.b1.size > 0) {
+      this.b1.delete(firstKey(this.b1)!);
+    }
+    while (this.t1.size + this.t2.size + this.b1.size + this.b2.size > 2 * this.capacity && this.b2.size > 0) {
+      this.b2.delete(firstKey(this.b2)!);
+    }
+  }
+
+  reset(): void {
+    this.t1.clear();
+    this.t2.clear();
+    this.b1.clear();
+    this.b2.clear();
+    this.target = 0;
+  }
+
+  getStats() {
+    return {
+      tracked: this.t1.size + this.t2.size,
+      t1: this.t1.size,
+      t2: this.t2.size,
+      b1: this.b1.size,
+      b2: this.b2.size,
+      target: this.target
+    };
+  }
+}
+
+// 2Q Policy (A1in FIFO, A1out ghost queue, Am LRU)
+export class TwoQueuePolicy implements ReplacementPolicy {
+  readonly name = '2Q' as const;
+  private a1in: Map<string, true> = new Map();
+  private a1out: Map<string, true> = new Map();
+  private am: Map<string, true> = new Map();
+  private kin: number;
+  private kout: number;
+
+  constructor(capacity: number) {
+    this.kin = Math.max(1, Math.floor(capacity * 0.25));
+    this.kout = Math.max(1, Math.floor(capacity * 0.5));
+  }
+
+  onInsert(key: string): void {
+    if (this.a1in.has(key) || this.am.has(key)) {
+      this.onAccess(key);
+      return;
+    }
+
+    if (this.a1out.delete(key)) {
+      // Seen recently enough to be remembered: treat as hot
+      this.am.set(key, true);
+    } else {
+      this.a1in.set(key, true);
+    }
+  }
+
+  onAccess(key: string): void {
+    if (this.am.delete(key)) {
+      this.am.set(key, true);
+    }
+    // Hits in A1in are ignored so correlated references do not promote
+  }
+
+  onRemove(key: string): void {
+    this.a1in.delete(key);
+    this.am.delete(key);
+  }
+
+  selectVictim(): string | null {
+    if (this.a1in.size > this.kin || this.am.size === 0) {
+      const victim = firstKey(this.a1in);
+      if (victim !== null) {
+        this.a1in.delete(victim);
+        this.a1out.set(victim, true);
+        while (this.a1out.size > this.kout) {
+          this.a1out.delete(firstKey(this.a1out)!);
+        }
+      }
+      return victim;
+    }
+
+    const victim = firstKey(this.am);
+    if (victim !== null) {
+      this.am.delete(victim);
+    }
+    return victim;
+  }
+
+  reset(): void {
+    this.a1in.clear();
+    this.a1out.clear();
+    this.am.clear();
+  }
+
+  getStats() {
+    return {
+      tracked: this.a1in.size + this.am.size,
+      a1in: this.a1in.size,
+      a1out: this.a1out.size,
+      am: this.am.size
+    };
+  }
+}
+
+// Random Policy
+export class RandomPolicy implements ReplacementPolicy {
+  readonly name = 'Random' as const;
+  private keys: string[] = [];
+  private positions: Map<string, number> = new Map();
+
+  // Victims come from the caller's seeded source so runs can be replayed
+  constructor(private random: RandomSource = new SeededRandom().source()) {}
+
+  onInsert(key: string): void {
+    if (this.positions.has(key)) return;
+    this.positions.set(key, this.keys.length);
+    this.keys.push(key);
+  }
+
+  onAccess(): void {
+    // Recency and frequency are deliberately ignored
+  }
+
+  onRemove(key: string): void {
+    const position = this.positions.get(key);
+    if (position === undefined) return;
+
+    // Swap with the last key so removal stays O(1)
+    const last = this.keys.pop()!;
+    if (last !== key) {
+      this.keys[position] = last;
+      this.positions.set(last, position);
+    }
+    this.positions.delete(key);
+  }
+
+  selectVictim(): string | null {
+    if (this.keys.length === 0) return null;
+
+    const victim = this.keys[Math.floor(this.random() * this.keys.length)];
+    this.onRemove(victim);
+    return victim;
+  }
+
+  reset(): void {
+    this.keys = [];
+    this.positions.clear();
+  }
+
+  getStats() {
+    return {
+      tracked: this.keys.length
+    };
+  }
+}
+
+export function createReplacementPolicy(type: ReplacementPolicyType, capacity: number, random?: RandomSource): ReplacementPolicy {
+  switch (type) {
+    case 'LRU':
+      return new LRUPolicy();
+    case 'LFU':
+      return new LFUPolicy();
+    case 'FIFO':
+      return new FIFOPolicy();
+    case 'CLOCK':
+      return new ClockPolicy();
+    case 'ARC':
+      return new ARCPolicy(capacity);
+    case '2Q':
+      return new TwoQueuePolicy(capacity);
+    case 'Random':
+      return new RandomPolicy(random);
+    default:
+      throw new Error(`Unknown replacement policy: ${type}`);
+  }
+}
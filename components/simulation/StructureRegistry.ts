@@ -0,0 +1,345 @@
+import {
+  BinarySearchTree,
+  AVLTree,
+  RedBlackTree,
+  SplayTree,
+  SkipList,
+  HashTable,
+  HashTableOptions,
+  OpenAddressingHashTable,
+  RobinHoodHashTable,
+  CuckooHashTable,
+  Trie,
+  RadixTree,
+  AdaptiveRadixTree,
+  BTree,
+  BPlusTree,
+  BlockReader
+} from './DataStructures';
+
+export type StructureType =
+  | 'BST'
+  | 'AVL'
+  | 'RedBlack'
+  | 'Splay'
+  | 'SkipList'
+  | 'Hash'
+  | 'LinearProbe'
+  | 'QuadraticProbe'
+  | 'DoubleHash'
+  | 'RobinHood'
+  | 'Cuckoo'
+  | 'Trie'
+  | 'Radix'
+  | 'ART'
+  | 'BTree'
+  | 'BPlusTree';
+
+// Outcome of a point lookup or update, whatever the structure
+export interface LookupResult {
+  found: boolean;
+  value: any;
+  cost: number; // work done, in the structure's cost unit (comparisons, probes, node reads, ...)
+  latency: number;
+  detail: Record<string, number>; // every other counter the structure reported
+}
+
+export interface PrefixResult {
+  results: Array<{ key: string; value: any }>;
+  count: number;
+  cost: number;
+  latency: number;
+  detail: Record<string, number>;
+}
+
+// What the classes in DataStructures.ts provide; result shapes differ per class
+export interface StructureImplementation {
+  insert(key: string, value: any): void;
+  search(key: string): any;
+  update(key: string, value: any): any;
+  delete(key: string): any;
+  keysWithPrefix(prefix: string): any;
+  getStats(): any;
+  estimateMemory(): number;
+  fuzzySearch?(key: string, maxDistance: number): any;
+  setBlockReader?(reader: BlockReader | null): void;
+}
+
+export interface SearchStructure {
+  readonly id: StructureType;
+  insert(key: string, value: any): void;
+  lookup(key: string): LookupResult;
+  update(key: string, value: any): LookupResult;
+  delete(key: string): LookupResult; // value is the removed entry's
+  prefixQuery(prefix: string): PrefixResult;
+  fuzzySearch(key: string, maxDistance: number): any;
+  setBlockReader(reader: BlockReader | null): void; // ignored by structures without blocks
+  getStats(): any;
+  estimateMemory(): number; // modeled bytes, independent of the engine's heap
+}
+
+// Construction options; each structure reads only the ones that apply to it
+export interface StructureOptions {
+  hashTable?: HashTableOptions;
+  bTreeOrder?: number;
+  seed?: number; // for structures that make random choices (skip list levels)
+}
+
+export interface StructureDefinition {
+  id: StructureType;
+  name: string;
+  color: string;
+  complexity: string;
+  costUnit: string; // field of the raw lookup result that measures work
+  prefixCostUnit?: string; // same for prefix queries, when it differs
+  create: (options: StructureOptions) => StructureImplementation;
+}
+
+// Wraps a structure class so its results come back in the normalized shape
+class RegisteredStructure implements SearchStructure {
+  constructor(
+    private definition: StructureDefinition,
+    private implementation: StructureImplementation
+  ) {}
+
+  get id(): StructureType {
+    return this.definition.id;
+  }
+
+  insert(key: string, value: any): void {
+    this.implementation.insert(key, value);
+  }
+
+  lookup(key: string): LookupResult {
+    return this.normalize(this.implementation.search(key), this.definition.costUnit);
+  }
+
+  update(key: string, value: any): LookupResult {
+    return this.normalize(this.implementation.update(key, value), this.definition.costUnit);
+  }
+
+  delete(key: string): LookupResult {
+    return this.normalize(this.implementation.delete(key), this.definition.costUnit);
+  }
+
+  prefixQuery(prefix: string): PrefixResult {
+    const raw = this.implementation.keysWithPrefix(prefix);
+    const { cost, latency, detail } = this.normalize(raw, this.definition.prefixCostUnit ?? this.definition.costUnit);
+    return { results: raw.results, count: raw.count, cost, latency, detail };
+  }
+
+  fuzzySearch(key: string, maxDistance: number): any {
+    if (!this.implementation.fuzzySearch) {
+      throw new Error(`Fuzzy search not supported by structure: ${this.id}`);
+    }
+    return this.implementation.fuzzySearch(key, maxDistance);
+  }
+
+  setBlockReader(reader: BlockReader | null): void {
+    this.implementation.setBlockReader?.(reader);
+  }
+
+  getStats(): any {
+    return this.implementation.getStats();
+  }
+
+  estimateMemory(): number {
+    return this.implementation.estimateMemory();
+  }
+
+  private normalize(raw: any, costUnit: string): LookupResult {
+    const detail: Record<string, number> = {};
+    for (const [field, value] of Object.entries(raw)) {
+      if (typeof value === 'number' && field !== 'latency' && field !== 'value') {
+        detail[field] = value;
+      }
+    }
+
+    return {
+      found: Boolean(raw.found),
+      value: raw.value ?? null,
+      cost: detail[costUnit] ?? 0,
+      latency: raw.latency,
+      detail
+    };
+  }
+}
+
+const registry: Map<StructureType, StructureDefinition> = new Map();
+
+// Adds a structure, or replaces the definition already registered under its id
+export function registerStructure(definition: StructureDefinition): void {
+  registry.set(definition.id, definition);
+}
+
+export function getStructureDefinition(id: StructureType): StructureDefinition {
+  const definition = registry.get(id);
+  if (!definition) {
+    throw new Error(`Unknown structure: ${id}`);
+  }
+  return definition;
+}
+
+// In registration order, which is the order selects, legends and charts use
+export function getStructureDefinitions(): StructureDefinition[] {
+  return Array.from(registry.values());
+}
+
+export function getStructureIds(): StructureType[] {
+  return Array.from(registry.keys());
+}
+
+export function createStructure(id: StructureType, options: StructureOptions = {}): SearchStructure {
+  const definition = getStructureDefinition(id);
+  return new RegisteredStructure(definition, definition.create(options));
+}
+
+registerStructure({
+  id: 'BST',
+  name: 'Binary Search Tree',
+  color: '#22c55e',
+  complexity: 'O(log n)',
+  costUnit: 'comparisons',
+  create: () => new BinarySearchTree()
+});
+
+registerStructure({
+  id: 'AVL',
+  name: 'AVL Tree',
+  color: '#14b8a6',
+  complexity: 'O(log n)',
+  costUnit: 'comparisons',
+  create: () => new AVLTree()
+});
+
+registerStructure({
+  id: 'RedBlack',
+  name: 'Red-Black Tree',
+  color: '#e11d48',
+  complexity: 'O(log n)',
+  costUnit: 'comparisons',
+  create: () => new RedBlackTree()
+});
+
+registerStructure({
+  id: 'Splay',
+  name: 'Splay Tree',
+  color: '#b45309',
+  complexity: 'O(log n) amortized',
+  costUnit: 'comparisons',
+  create: () => new SplayTree()
+});
+
+registerStructure({
+  id: 'SkipList',
+  name: 'Skip List',
+  color: '#047857',
+  complexity: 'O(log n) expected',
+  costUnit: 'comparisons',
+  create: options => new SkipList(32, 0.5, options.seed)
+});
+
+registerStructure({
+  id: 'Hash',
+  name: 'Hash Table',
+  color: '#3b82f6',
+  complexity: 'O(1) avg',
+  costUnit: 'bucketSize',
+  prefixCostUnit: 'scanned',
+  create: options => new HashTable(1000, options.hashTable)
+});
+
+registerStructure({
+  id: 'LinearProbe',
+  name: 'Linear Probing',
+  color: '#0ea5e9',
+  complexity: 'O(1) avg',
+  costUnit: 'probes',
+  prefixCostUnit: 'scanned',
+  create: () => new OpenAddressingHashTable(16384, 'linear')
+});
+
+registerStructure({
+  id: 'QuadraticProbe',
+  name: 'Quadratic Probing',
+  color: '#6366f1',
+  complexity: 'O(1) avg',
+  costUnit: 'probes',
+  prefixCostUnit: 'scanned',
+  create: () => new OpenAddressingHashTable(16384, 'quadratic')
+});
+
+registerStructure({
+  id: 'DoubleHash',
+  name: 'Double Hashing',
+  color: '#8b5cf6',
+  complexity: 'O(1) avg',
+  costUnit: 'probes',
+  prefixCostUnit: 'scanned',
+  create: () => new OpenAddressingHashTable(16384, 'double')
+});
+
+registerStructure({
+  id: 'RobinHood',
+  name: 'Robin Hood Hashing',
+  color: '#d946ef',
+  complexity: 'O(1) avg',
+  costUnit: 'probes',
+  prefixCostUnit: 'scanned',
+  create: () => new RobinHoodHashTable(16384)
+});
+
+registerStructure({
+  id: 'Cuckoo',
+  name: 'Cuckoo Hashing',
+  color: '#eab308',
+  complexity: 'O(1) lookup',
+  costUnit: 'probes',
+  prefixCostUnit: 'scanned',
+  create: () => new CuckooHashTable(8192)
+});
+
+registerStructure({
+  id: 'Trie',
+  name: 'Trie (Prefix Tree)',
+  color: '#f97316',
+  complexity: 'O(m)',
+  costUnit: 'nodeTraversals',
+  create: () => new Trie()
+});
+
+registerStructure({
+  id: 'Radix',
+  name: 'Radix Trie',
+  color: '#84cc16',
+  complexity: 'O(m)',
+  costUnit: 'nodeTraversals',
+  create: () => new RadixTree()
+});
+
+registerStructure({
+  id: 'ART',
+  name: 'Adaptive Radix Tree',
+  color: '#78716c',
+  complexity: 'O(m)',
+  costUnit: 'nodeTraversals',
+  create: () => new AdaptiveRadixTree()
+});
+
+registerStructure({
+  id: 'BTree',
+  name: 'B-Tree',
+  color: '#0891b2',
+  complexity: 'O(log_b n)',
+  costUnit: 'nodeReads',
+  create: options => new BTree(options.bTreeOrder)
+});
+
+registerStructure({
+  id: 'BPlusTree',
+  name: 'B+ Tree',
+  color: '#be185d',
+  complexity: 'O(log_b n)',
+  costUnit: 'nodeReads',
+  create: options => new BPlusTree(options.bTreeOrder)
+});
@@ -0,0 +1,53 @@
+import { OperationRecord } from './FileAccessSimulator';
+
+export type OperationLogFormat = 'jsonl' | 'csv';
+
+// Column names follow the trace import format, so an exported log can be loaded back and replayed
+const CSV_COLUMNS = ['index', 'op', 'path', 'new_path', 'level', 'hit', 'cost', 'latency'];
+
+function csvField(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvRow(record: OperationRecord): string {
+  return [
+    record.index,
+    record.type,
+    record.path,
+    record.newPath,
+    record.level,
+    record.hit,
+    record.cost,
+    record.latency
+  ].map(csvField).join(',');
+}
+
+function toJsonLine(record: OperationRecord): string {
+  return JSON.stringify({
+    index: record.index,
+    op: record.type,
+    path: record.path,
+    newPath: record.newPath,
+    level: record.level,
+    hit: record.hit,
+    cost: record.cost,
+    latency: record.latency
+  });
+}
+
+// One operation per line, in execution order
+export function formatOperationLog(records: OperationRecord[], format: OperationLogFormat): string {
+  switch (format) {
+    case 'jsonl':
+      return records.map(toJsonLine).join('\n') + '\n';
+    case 'csv':
+      return [CSV_COLUMNS.join(','), ...records.map(toCsvRow)].join('\n') + '\n';
+    default:
+      throw new Error(`Unknown operation log format: ${format}`);
+  }
+}
+
+export function operationLogFileName(structure: string, seed: number, format: OperationLogFormat): string {
+  return `${structure}-seed${seed}-operations.${format}`;
+}
@@ -0,0 +1,625 @@
+import { FileRecord, FileOperation, OperationType, OPERATION_TYPES, SIMULATION_EPOCH } from './FileAccessSimulator';
+
+export type TraceFormat = 'strace' | 'csv' | 'jsonl' | 'snia';
+
+export const TRACE_FORMATS: TraceFormat[] = ['strace', 'csv', 'jsonl', 'snia'];
+
+export const TRACE_FORMAT_LABELS: Record<TraceFormat, string> = {
+  strace: 'strace output',
+  csv: 'CSV (timestamp, op, path, size)',
+  jsonl: 'JSON lines',
+  snia: 'SNIA block trace'
+};
+
+export interface TraceImportOptions {
+  maxOperations?: number; // stop reading once this many operations are replayable
+  blockSize?: number; // SNIA traces: bytes per simulated block file
+}
+
+export const DEFAULT_TRACE_IMPORT_OPTIONS: Required<TraceImportOptions> = {
+  maxOperations: 1000000, // about what a browser tab holds comfortably
+  blockSize: 4096
+};
+
+export interface ImportedTrace {
+  name: string;
+  format: TraceFormat;
+  records: FileRecord[]; // files that exist before the first operation
+  operations: FileOperation[]; // in trace order
+  skippedLines: number; // blank, comment, unparsable or unsupported lines
+  truncated: boolean; // maxOperations was reached before the end of the input
+}
+
+// One parsed trace line, before it is checked against the files seen so far
+interface TraceEvent {
+  type: OperationType;
+  path: string;
+  newPath?: string;
+  size?: number;
+  timestamp: number | null; // ms since the Unix epoch
+  missing?: boolean; // the call failed because the path doesn't exist
+}
+
+interface TraceLineParser {
+  parse(line: string): TraceEvent[]; // empty when the line is skipped
+}
+
+// Trace paths are taken as given; relative ones are rooted at / since the trace has no cwd
+function normalizePath(path: string): string {
+  const trimmed = path.replace(/^\.\//, '');
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+// Listings are keyed by the directory with its trailing slash, as in generated workloads
+function directoryKey(path: string): string {
+  const normalized = normalizePath(path);
+  return normalized.endsWith('/') ? normalized : `${normalized}/`;
+}
+
+// Seconds since the epoch when numeric (strace -ttt style), otherwise anything Date.parse accepts
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value * 1000 : null;
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) {
+    return numeric * 1000;
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function parseSize(value: unknown): number | undefined {
+  const size = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isFinite(size) && size >= 0 ? size : undefined;
+}
+
+const OPERATION_ALIASES: Record<string, OperationType> = {
+  open: 'lookup',
+  read: 'lookup',
+  get: 'lookup',
+  getattr: 'stat',
+  access: 'stat',
+  overwrite: 'write',
+  update: 'write',
+  put: 'write',
+  unlink: 'delete',
+  remove: 'delete',
+  rm: 'delete',
+  mv: 'rename',
+  move: 'rename',
+  ls: 'list',
+  readdir: 'list'
+};
+
+function parseOperationType(value: unknown): OperationType | null {
+  const op = String(value ?? '').trim().toLowerCase();
+  if ((OPERATION_TYPES as string[]).includes(op)) {
+    return op as OperationType;
+  }
+  return OPERATION_ALIASES[op] ?? null;
+}
+
+// Shared by the CSV and JSONL formats once a line is split into fields
+function toEvent(op: unknown, path: unknown, timestamp: unknown, size: unknown, newPath: unknown): TraceEvent[] {
+  const type = parseOperationType(op);
+  if (!type || typeof path !== 'string' || path === '') {
+    return [];
+  }
+  if (type === 'rename' && (typeof newPath !== 'string' || newPath === '')) {
+    return [];
+  }
+
+  return [{
+    type,
+    path: type === 'list' ? directoryKey(path) : normalizePath(path),
+    newPath: type === 'rename' ? normalizePath(newPath as string) : undefined,
+    size: parseSize(size),
+    timestamp: parseTimestamp(timestamp)
+  }];
+}
+
+// Splits one CSV line, honoring double-quoted fields with "" escapes
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map(value => value.trim());
+}
+
+// A quoted strace argument, with the directory fd argument right before it, if any
+interface StraceString {
+  value: string;
+  truncated: boolean; // strace cut it at its -s limit
+  dirfd?: string; // AT_FDCWD or the fd number
+  dirPath?: string; // the fd's path, when recorded with -y
+}
+
+// strace -f / -t / -tt / -ttt output; only calls that resolve a path are replayed
+export class StraceParser implements TraceLineParser {
+  private static readonly CALL = /^(?:\[pid\s+\d+\]\s+|\d+\s+)?(?:(\d+(?:\.\d+)?|\d{1,2}:\d{2}:\d{2}(?:\.\d+)?)\s+)?(\w+)\((.*)$/;
+  private static readonly RESULT = /\)\s+=\s+(-?\d+|\?)(?:\s+([A-Z]+))?/;
+  private static readonly STRING = /"((?:[^"\\]|\\.)*)"(\.\.\.)?/g;
+  private static readonly DIRFD = /(AT_FDCWD|-?\d+)(?:<([^>]*)>)?\s*,\s*$/;
+
+  private static readonly STAT_CALLS = new Set([
+    'stat', 'lstat', 'stat64', 'lstat64', 'newfstatat', 'fstatat64', 'statx',
+    'access', 'faccessat', 'faccessat2', 'readlink', 'readlinkat'
+  ]);
+
+  parse(line: string): TraceEvent[] {
+    const match = StraceParser.CALL.exec(line.trim());
+    if (!match) {
+      return []; // signals, exit lines and "<... resumed>" halves
+    }
+
+    const [, time, call, rest] = match;
+    const strings = this.parseStrings(rest);
+    const result = StraceParser.RESULT.exec(rest);
+    // An unfinished call's result arrives on a later line; treat it as having succeeded
+    const failed = result !== null && result[1].startsWith('-');
+    const errno = result?.[2];
+    const timestamp = this.parseTime(time);
+
+    const event = this.classify(call, rest, strings.map(string => this.resolve(string) ?? string.value));
+    if (!event) {
+      return [];
+    }
+    for (const string of strings.slice(0, event.newPath === undefined ? 1 : 2)) {
+      if (string.truncated) {
+        throw new Error(`strace truncated the path "${string.value}"...; re-record with -s 4096`);
+      }
+      if (this.resolve(string) === null) {
+        return []; // relative to a directory fd whose path wasn't recorded
+      }
+    }
+
+    if (failed) {
+      // Nothing changed, but the path was still resolved
+      if (event.type === 'list') {
+        return [];
+      }
+      const missing = errno === 'ENOENT' || errno === 'ENOTDIR';
+      return [{ type: 'lookup', path: event.path, timestamp, missing }];
+    }
+    return [{ ...event, timestamp }];
+  }
+
+  private classify(call: string, args: string, strings: string[]): Omit<TraceEvent, 'timestamp'> | null {
+    const path = strings[0];
+    if (path === undefined || path === '') {
+      return null; // fd-relative calls such as fstat via AT_EMPTY_PATH
+    }
+
+    if (call === 'open' || call === 'openat' || call === 'openat2' || call === 'creat') {
+      if (call !== 'creat' && args.includes('O_DIRECTORY')) {
+        return { type: 'list', path: directoryKey(path) };
+      }
+      if (call === 'creat' || args.includes('O_CREAT')) {
+        return { type: 'create', path: normalizePath(path) };
+      }
+      const writing = /O_WRONLY|O_RDWR|O_TRUNC/.test(args);
+      return { type: writing ? 'write' : 'lookup', path: normalizePath(path) };
+    }
+
+    if (StraceParser.STAT_CALLS.has(call)) {
+      const size = /(?:st_size|stx_size)=(\d+)/.exec(args);
+      return { type: 'stat', path: normalizePath(path), size: size ? Number(size[1]) : undefined };
+    }
+
+    if (call === 'unlink' || call === 'unlinkat') {
+      // Directory removal doesn't touch any file record
+      return args.includes('AT_REMOVEDIR') ? null : { type: 'delete', path: normalizePath(path) };
+    }
+
+    if ((call === 'rename' || call === 'renameat' || call === 'renameat2') && strings[1]) {
+      return { type: 'rename', path: normalizePath(path), newPath: normalizePath(strings[1]) };
+    }
+
+    return null;
+  }
+
+  private parseStrings(args: string): StraceString[] {
+    const strings: StraceString[] = [];
+    let end = 0;
+    for (const match of args.matchAll(StraceParser.STRING)) {
+      const dirfd = StraceParser.DIRFD.exec(args.slice(end, match.index));
+      strings.push({
+        value: this.unescape(match[1]),
+        truncated: match[2] !== undefined,
+        dirfd: dirfd?.[1],
+        dirPath: dirfd?.[2]
+      });
+      end = match.index! + match[0].length;
+    }
+    return strings;
+  }
+
+  // Joins a relative path onto its directory fd's path (strace -y); null when that path is unknown
+  private resolve(string: StraceString): string | null {
+    const { value, dirfd, dirPath } = string;
+    if (value.startsWith('/') || dirfd === undefined || dirfd === 'AT_FDCWD') {
+      return value;
+    }
+    if (dirPath === undefined) {
+      return null;
+    }
+    return `${dirPath.replace(/\/$/, '')}/${value}`;
+  }
+
+  // -ttt gives epoch seconds; -t and -tt only a time of day, placed on the simulation epoch's date
+  private parseTime(time: string | undefined): number | null {
+    if (!time) {
+      return null;
+    }
+    if (!time.includes(':')) {
+      return Number(time) * 1000;
+    }
+    const [hours, minutes, seconds] = time.split(':').map(Number);
+    return SIMULATION_EPOCH + ((hours * 60 + minutes) * 60 + seconds) * 1000;
+  }
+
+  private unescape(value: string): string {
+    return value.replace(/\\(x[0-9a-fA-F]{2}|[0-7]{1,3}|.)/g, (_, code: string) => {
+      if (code[0] === 'x') return String.fromCharCode(parseInt(code.slice(1), 16));
+      if (/^[0-7]/.test(code)) return String.fromCharCode(parseInt(code, 8));
+      return ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[code] ?? code;
+    });
+  }
+}
+
+// timestamp,op,path,size[,new_path]; a header row may name the columns in any order
+export class CsvTraceParser implements TraceLineParser {
+  private columns: Record<string, number> = { timestamp: 0, op: 1, path: 2, size: 3, new_path: 4 };
+  private firstLine = true;
+
+  parse(line: string): TraceEvent[] {
+    const fields = splitCsvLine(line);
+
+    if (this.firstLine) {
+      this.firstLine = false;
+      const names = fields.map(field => field.toLowerCase().replace(/[^a-z]/g, ''));
+      if (names.includes('op') && names.includes('path')) {
+        this.columns = {
+          timestamp: names.indexOf('timestamp'),
+          op: names.indexOf('op'),
+          path: names.indexOf('path'),
+          size: names.indexOf('size'),
+          new_path: names.indexOf('newpath')
+        };
+        return [];
+      }
+    }
+
+    const field = (column: string) => (this.columns[column] >= 0 ? fields[this.columns[column]] : undefined);
+    return toEvent(field('op'), field('path'), field('timestamp'), field('size'), field('new_path'));
+  }
+}
+
+// {"timestamp": ..., "op": ..., "path": ..., "size": ..., "newPath": ...} per line
+export class JsonlTraceParser implements TraceLineParser {
+  parse(line: string): TraceEvent[] {
+    let entry: any;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      return [];
+    }
+    if (!entry || typeof entry !== 'object') {
+      return [];
+    }
+    return toEvent(entry.op, entry.path, entry.timestamp, entry.size, entry.newPath ?? entry.new_path);
+  }
+}
+
+// MSR Cambridge layout: Timestamp,Hostname,DiskNumber,Type,Offset,Size,ResponseTime with
+// Windows filetime timestamps. Every block a request touches becomes one file, named by its index.
+export class SniaTraceParser implements TraceLineParser {
+  private static readonly FILETIME_EPOCH_OFFSET = 11644473600000; // ms from 1601 to 1970
+
+  constructor(private blockSize: number = DEFAULT_TRACE_IMPORT_OPTIONS.blockSize) {}
+
+  parse(line: string): TraceEvent[] {
+    const [time, host, disk, type, offsetField, sizeField] = splitCsvLine(line);
+    const kind = (type ?? '').toLowerCase();
+    if (kind !== 'read' && kind !== 'write' && kind !== 'r' && kind !== 'w') {
+      return []; // header or malformed row
+    }
+
+    const offset = Number(offsetField);
+    const size = Number(sizeField);
+    if (!Number.isFinite(offset) || !Number.isFinite(size)) {
+      return [];
+    }
+
+    const ticks = Number(time);
+    const timestamp = Number.isFinite(ticks) ? ticks / 10000 - SniaTraceParser.FILETIME_EPOCH_OFFSET : null;
+    const first = Math.floor(offset / this.blockSize);
+    const last = Math.floor((offset + Math.max(1, size) - 1) / this.blockSize);
+    const events: TraceEvent[] = [];
+
+    for (let block = first; block <= last; block++) {
+      events.push({
+        type: kind[0] === 'w' ? 'write' : 'lookup',
+        path: `/${host}/disk${disk}/${block}`,
+        size: this.blockSize,
+        timestamp
+      });
+    }
+    return events;
+  }
+}
+
+export function createTraceParser(format: TraceFormat, options: TraceImportOptions = {}): TraceLineParser {
+  switch (format) {
+    case 'strace':
+      return new StraceParser();
+    case 'csv':
+      return new CsvTraceParser();
+    case 'jsonl':
+      return new JsonlTraceParser();
+    case 'snia':
+      return new SniaTraceParser(options.blockSize);
+    default:
+      throw new Error(`Unknown trace format: ${format}`);
+  }
+}
+
+// Guesses from the file name, then from the first non-empty line
+export function detectTraceFormat(sample: string, name: string = ''): TraceFormat {
+  if (/\.(jsonl|ndjson)$/i.test(name)) {
+    return 'jsonl';
+  }
+
+  const line = sample.split(/\r?\n/).find(candidate => candidate.trim() !== '')?.trim() ?? '';
+  if (line.startsWith('{')) {
+    return 'jsonl';
+  }
+  if (/^(?:\[pid\s+\d+\]\s+|\d+\s+)?(?:[\d.:]+\s+)?\w+\(/.test(line)) {
+    return 'strace';
+  }
+
+  const fields = splitCsvLine(line);
+  const type = (fields[3] ?? '').toLowerCase();
+  if (fields.length >= 6 && (type === 'read' || type === 'write' || type === 'type')) {
+    return 'snia';
+  }
+  return 'csv';
+}
+
+// Tracks which files exist as the trace goes, so each event becomes an operation the
+// simulator can replay, and records every file that must exist before the first one
+class TraceBuilder {
+  readonly records: FileRecord[] = [];
+  readonly operations: FileOperation[] = [];
+  private files: Map<string, FileRecord> = new Map(); // current state
+  private settled: Set<string> = new Set(); // paths whose existence before the trace is known
+
+  constructor(private maxOperations: number) {}
+
+  get full(): boolean {
+    return this.operations.length >= this.maxOperations;
+  }
+
+  add(event: TraceEvent): void {
+    if (this.full) return;
+    // Untimed traces get one simulated second per operation, like generated workloads
+    const time = new Date(event.timestamp ?? SIMULATION_EPOCH + this.operations.length * 1000);
+
+    switch (event.type) {
+      case 'list':
+      case 'prefix':
+        this.operations.push({ type: event.type, path: event.path });
+        break;
+      case 'write': {
+        const file = this.existing(event.path, event.size, time);
+        const record = { ...file, size: event.size ?? file.size, lastModified: time };
+        this.files.set(event.path, record);
+        this.operations.push({ type: 'write', path: event.path, record });
+        break;
+      }
+      case 'create': {
+        // A create of a file that already exists opens it for writing
+        this.settle(event.path, false);
+        if (this.files.has(event.path)) {
+          this.add({ ...event, type: 'write' });
+          return;
+        }
+        const record = this.makeRecord(event.path, event.size ?? 0, time);
+        this.files.set(event.path, record);
+        this.operations.push({ type: 'create', path: event.path, record });
+        break;
+      }
+      case 'delete':
+        this.existing(event.path, event.size, time);
+        if (!this.files.delete(event.path)) {
+          this.operations.push({ type: 'lookup', path: event.path });
+          break;
+        }
+        this.operations.push({ type: 'delete', path: event.path });
+        break;
+      case 'rename': {
+        const newPath = event.newPath!;
+        this.existing(event.path, event.size, time);
+        const file = this.files.get(event.path);
+        if (!file) {
+          this.operations.push({ type: 'lookup', path: event.path });
+          break;
+        }
+        this.settle(newPath, false);
+        if (this.files.delete(newPath)) {
+          // rename(2) replaces the target
+          this.operations.push({ type: 'delete', path: newPath });
+        }
+        const record = this.makeRecord(newPath, file.size, time);
+        this.files.delete(event.path);
+        this.files.set(newPath, record);
+        this.operations.push({ type: 'rename', path: event.path, newPath, record });
+        break;
+      }
+      default:
+        this.settle(event.path, !event.missing, event.size, time);
+        this.learnSize(event.path, event.size);
+        this.operations.push({ type: event.type, path: event.path });
+    }
+  }
+
+  // The file at path, created as pre-existing if the trace hasn't mentioned it yet
+  private existing(path: string, size: number | undefined, time: Date): FileRecord {
+    this.settle(path, true, size, time);
+    return this.files.get(path) ?? this.makeRecord(path, size ?? 0, time);
+  }
+
+  private settle(path: string, exists: boolean, size?: number, time: Date = new Date(SIMULATION_EPOCH)): void {
+    if (this.settled.has(path)) return;
+    this.settled.add(path);
+    if (exists) {
+      const record = this.makeRecord(path, size ?? 0, time);
+      this.records.push(record);
+      this.files.set(path, record);
+    }
+  }
+
+  // stat reports sizes that opens don't; fill them in on records that had none
+  private learnSize(path: string, size: number | undefined): void {
+    const file = this.files.get(path);
+    if (file && size !== undefined && file.size === 0) {
+      file.size = size;
+    }
+  }
+
+  private makeRecord(path: string, size: number, lastModified: Date): FileRecord {
+    const filename = path.slice(path.lastIndexOf('/') + 1);
+    const dot = filename.lastIndexOf('.');
+    return {
+      filename,
+      path,
+      size,
+      extension: dot > 0 ? filename.slice(dot) : '',
+      lastModified
+    };
+  }
+}
+
+// Incremental importer: feed text chunks in order, then call finish(). Chunks may split lines.
+export class TraceImporter {
+  private builder: TraceBuilder;
+  private parser: TraceLineParser | null = null;
+  private format: TraceFormat | null;
+  private pending = '';
+  private lineNumber = 0;
+  private skippedLines = 0;
+  private options: Required<TraceImportOptions>;
+
+  constructor(private name: string, format: TraceFormat | null = null, options: TraceImportOptions = {}) {
+    this.options = { ...DEFAULT_TRACE_IMPORT_OPTIONS, ...options };
+    this.format = format;
+    this.builder = new TraceBuilder(this.options.maxOperations);
+  }
+
+  // False once maxOperations is reached; further input is ignored
+  push(chunk: string): boolean {
+    const lines = (this.pending + chunk).split('\n');
+    this.pending = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!this.parseLine(line)) return false;
+    }
+    return true;
+  }
+
+  finish(): ImportedTrace {
+    if (this.pending !== '') {
+      this.parseLine(this.pending);
+      this.pending = '';
+    }
+    return {
+      name: this.name,
+      format: this.format ?? 'csv',
+      records: this.builder.records,
+      operations: this.builder.operations,
+      skippedLines: this.skippedLines,
+      truncated: this.builder.full
+    };
+  }
+
+  private parseLine(rawLine: string): boolean {
+    if (this.builder.full) return false;
+
+    this.lineNumber++;
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) {
+      this.skippedLines++;
+      return true;
+    }
+    if (!this.parser) {
+      this.format = this.format ?? detectTraceFormat(line, this.name);
+      this.parser = createTraceParser(this.format, this.options);
+    }
+
+    let events: TraceEvent[];
+    try {
+      events = this.parser.parse(line);
+    } catch (error) {
+      throw new Error(`${this.name}, line ${this.lineNumber}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (events.length === 0) {
+      this.skippedLines++;
+    }
+    for (const event of events) {
+      this.builder.add(event);
+    }
+    return !this.builder.full;
+  }
+}
+
+export function importTrace(text: string, name: string = 'trace', format: TraceFormat | null = null, options: TraceImportOptions = {}): ImportedTrace {
+  const importer = new TraceImporter(name, format, options);
+  importer.push(text);
+  return importer.finish();
+}
+
+// Streams the file, so traces larger than memory are read only up to maxOperations
+export async function importTraceFile(file: File, format: TraceFormat | null = null, options: TraceImportOptions = {}): Promise<ImportedTrace> {
+  const importer = new TraceImporter(file.name, format, options);
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      importer.push(decoder.decode());
+      break;
+    }
+    if (!importer.push(decoder.decode(value, { stream: true }))) {
+      await reader.cancel();
+      break;
+    }
+  }
+
+  return importer.finish();
+}
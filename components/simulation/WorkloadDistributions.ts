@@ -0,0 +1,219 @@
+import { RandomSource, SeededRandom } from './Random';
+
+export type WorkloadDistributionType = 'Pareto' | 'Zipf' | 'Uniform' | 'Sequential' | 'Looping' | 'HotSpot' | 'MovingHotSet';
+
+export const WORKLOAD_DISTRIBUTIONS: WorkloadDistributionType[] = ['Pareto', 'Zipf', 'Uniform', 'Sequential', 'Looping', 'HotSpot', 'MovingHotSet'];
+
+export const WORKLOAD_DISTRIBUTION_LABELS: Record<WorkloadDistributionType, string> = {
+  Pareto: '80/20',
+  Zipf: 'Zipf',
+  Uniform: 'Uniform',
+  Sequential: 'Sequential scan',
+  Looping: 'Looping scan',
+  HotSpot: 'Gaussian hot spot',
+  MovingHotSet: 'Moving hot set'
+};
+
+// Tuning knobs; each distribution reads only the ones that apply to it
+export interface WorkloadDistributionOptions {
+  zipfAlpha?: number; // skew; 0 is uniform, around 1 is typical of file popularity
+  loopLength?: number; // files per pass of the looping scan
+  hotSpotWidth?: number; // standard deviation of the hot spot, as a fraction of the file set
+  hotSetSize?: number; // files in the moving hot set
+  shiftInterval?: number; // operations between hot-set moves
+}
+
+export const DEFAULT_WORKLOAD_OPTIONS: Required<WorkloadDistributionOptions> = {
+  zipfAlpha: 1.0,
+  loopLength: 2500, // just past the default L3, so LRU misses on every pass
+  hotSpotWidth: 0.02,
+  hotSetSize: 500,
+  shiftInterval: 1000
+};
+
+// Picks which of `itemCount` files the next operation touches. Scans and the moving hot set
+// keep position state, so create a fresh distribution for every operation stream.
+export interface WorkloadDistribution {
+  readonly name: WorkloadDistributionType;
+  next(): number;
+}
+
+// The original access pattern: 80% of operations go to the first 20% of files
+export class ParetoDistribution implements WorkloadDistribution {
+  readonly name = 'Pareto' as const;
+  private hotCount: number;
+
+  constructor(private itemCount: number, private random: RandomSource, hotFraction: number = 0.2, private hotProbability: number = 0.8) {
+    if (!(hotFraction > 0 && hotFraction < 1)) {
+      throw new Error(`Invalid hot fraction: ${hotFraction}`);
+    }
+    // At least one hot file, and at least one cold file whenever there are two or more
+    this.hotCount = Math.max(1, Math.min(itemCount - 1, Math.floor(itemCount * hotFraction)));
+  }
+
+  next(): number {
+    if (this.hotCount >= this.itemCount || this.random() < this.hotProbability) {
+      return Math.floor(this.random() * this.hotCount);
+    }
+    return this.hotCount + Math.floor(this.random() * (this.itemCount - this.hotCount));
+  }
+}
+
+// File k (0-based) is chosen with probability proportional to 1 / (k + 1)^alpha
+export class ZipfDistribution implements WorkloadDistribution {
+  readonly name = 'Zipf' as const;
+  private cdf: Float64Array;
+
+  constructor(itemCount: number, private random: RandomSource, alpha: number = DEFAULT_WORKLOAD_OPTIONS.zipfAlpha) {
+    this.cdf = new Float64Array(itemCount);
+    let total = 0;
+    for (let k = 0; k < itemCount; k++) {
+      total += 1 / Math.pow(k + 1, alpha);
+      this.cdf[k] = total;
+    }
+    for (let k = 0; k < itemCount; k++) {
+      this.cdf[k] /= total;
+    }
+  }
+
+  next(): number {
+    // First rank whose cumulative probability reaches the draw
+    const target = this.random();
+    let lo = 0;
+    let hi = this.cdf.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.cdf[mid] < target) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    return lo;
+  }
+}
+
+export class UniformDistribution implements WorkloadDistribution {
+  readonly name = 'Uniform' as const;
+
+  constructor(private itemCount: number, private random: RandomSource) {}
+
+  next(): number {
+    return Math.floor(this.random() * this.itemCount);
+  }
+}
+
+// One pass over every file in order, wrapping only after the whole set; nothing is reused
+export class SequentialDistribution implements WorkloadDistribution {
+  readonly name = 'Sequential' as const;
+  private position = 0;
+
+  constructor(private itemCount: number) {}
+
+  next(): number {
+    const index = this.position;
+    this.position = (this.position + 1) % this.itemCount;
+    return index;
+  }
+}
+
+// Repeated scans over the first `loopLength` files: the classic LRU worst case once
+// the loop is longer than the cache
+export class LoopingDistribution implements WorkloadDistribution {
+  readonly name = 'Looping' as const;
+  private position = 0;
+  private loopLength: number;
+
+  constructor(itemCount: number, loopLength: number = DEFAULT_WORKLOAD_OPTIONS.loopLength) {
+    this.loopLength = Math.max(1, Math.min(itemCount, Math.floor(loopLength)));
+  }
+
+  next(): number {
+    const index = this.position;
+    this.position = (this.position + 1) % this.loopLength;
+    return index;
+  }
+}
+
+// Normally distributed around the middle of the file set; draws past either end wrap around
+export class HotSpotDistribution implements WorkloadDistribution {
+  readonly name = 'HotSpot' as const;
+  private spare: number | null = null;
+
+  constructor(private itemCount: number, private random: RandomSource, private width: number = DEFAULT_WORKLOAD_OPTIONS.hotSpotWidth) {}
+
+  next(): number {
+    const offset = Math.round(this.gaussian() * this.width * this.itemCount);
+    const index = (Math.floor(this.itemCount / 2) + offset) % this.itemCount;
+    return index < 0 ? index + this.itemCount : index;
+  }
+
+  // Box-Muller; each pair of uniforms yields two normals, the second is kept for the next call
+  private gaussian(): number {
+    if (this.spare !== null) {
+      const value = this.spare;
+      this.spare = null;
+      return value;
+    }
+    const u = 1 - this.random(); // (0, 1], so the log is finite
+    const v = this.random();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    this.spare = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  }
+}
+
+// 90% of operations hit a contiguous hot set that jumps to the next block of files every
+// `shiftInterval` operations; the rest are uniform background traffic
+export class MovingHotSetDistribution implements WorkloadDistribution {
+  readonly name = 'MovingHotSet' as const;
+  private operations = 0;
+  private hotSetSize: number;
+
+  constructor(
+    private itemCount: number,
+    private random: RandomSource,
+    hotSetSize: number = DEFAULT_WORKLOAD_OPTIONS.hotSetSize,
+    private shiftInterval: number = DEFAULT_WORKLOAD_OPTIONS.shiftInterval
+  ) {
+    this.hotSetSize = Math.max(1, Math.min(itemCount, Math.floor(hotSetSize)));
+  }
+
+  next(): number {
+    const phase = Math.floor(this.operations / Math.max(1, this.shiftInterval));
+    this.operations++;
+
+    if (this.random() < 0.9) {
+      const start = (phase * this.hotSetSize) % this.itemCount;
+      return (start + Math.floor(this.random() * this.hotSetSize)) % this.itemCount;
+    }
+    return Math.floor(this.random() * this.itemCount);
+  }
+}
+
+export function createWorkloadDistribution(
+  type: WorkloadDistributionType,
+  itemCount: number,
+  random: RandomSource = new SeededRandom().source(),
+  options: WorkloadDistributionOptions = {}
+): WorkloadDistribution {
+  const settings = { ...DEFAULT_WORKLOAD_OPTIONS, ...options };
+  switch (type) {
+    case 'Pareto':
+      return new ParetoDistribution(itemCount, random);
+    case 'Zipf':
+      return new ZipfDistribution(itemCount, random, settings.zipfAlpha);
+    case 'Uniform':
+      return new UniformDistribution(itemCount, random);
+    case 'Sequential':
+      return new SequentialDistribution(itemCount);
+    case 'Looping':
+      return new LoopingDistribution(itemCount, settings.loopLength);
+    case 'HotSpot':
+      return new HotSpotDistribution(itemCount, random, settings.hotSpotWidth);
+    case 'MovingHotSet':
+      return new MovingHotSetDistribution(itemCount, random, settings.hotSetSize, settings.shiftInterval);
+    default:
+      throw new Error(`Unknown workload distribution: ${type}`);
+  }
+}